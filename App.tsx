@@ -1,30 +1,434 @@
-import React, { useState } from 'react';
-import { Scene3D } from './components/Scene3D';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Scene3D, Scene3DHandle } from './components/Scene3D';
 import { UILayer } from './components/UILayer';
+import { HandFrameListener } from './components/TrackingHUD';
+import { MemoryLook, PerformanceStats, SceneSettings, Theme, TrackingStatus, UploadedImage } from './types';
+import { GestureType } from './input/gestureRecognizer';
+import { CaptureKind } from './input/inputController';
+import {
+  addMemories,
+  clearMemories,
+  exportMemories,
+  importMemories,
+  loadDefaultMemoryId,
+  loadMemories,
+  removeMemory,
+  reorderMemories,
+  replaceMemory,
+  sanitizeLook,
+  saveDefaultMemoryId,
+  updateMemory,
+} from './services/memoryLibrary';
+import {
+  BUILT_IN_THEMES,
+  CLASSIC_GOLD,
+  loadCustomThemes,
+  parseTheme,
+  removeCustomTheme,
+  saveCustomTheme,
+  toRgbChannels,
+} from './scene/themes';
+import { DEFAULT_SCENE_SETTINGS, clearSettings, loadSettings, saveSettings } from './services/settings';
+import { captureFilename, downloadBlob } from './services/capture';
+import { DEFAULT_VIEW, ShareState, decodeShareState, shareUrl } from './services/shareLink';
+import { DEFAULT_GREETING, DEFAULT_SUBTITLE } from './scene/textFormation';
+import { EMPTY_PLAYBACK, MusicPlayer, PlaybackState } from './services/music';
+import { SlideshowState } from './scene/slideshow';
+import { SceneController } from './scene/sceneController';
 
 const App: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [uiHidden, setUiHidden] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<FileList | null>(null);
+  const [memories, setMemories] = useState<UploadedImage[]>([]);
+  const [defaultMemoryId, setDefaultMemoryId] = useState<string | null>(loadDefaultMemoryId);
+  const [formation, setFormation] = useState('tree');
+  const [handCount, setHandCount] = useState(0);
+  const [trackingStatus, setTrackingStatus] = useState<TrackingStatus>({ state: 'loading' });
+  const [gesture, setGesture] = useState<GestureType>('NONE');
+  const [hudVisible, setHudVisible] = useState(false);
+  const [customThemes, setCustomThemes] = useState<Theme[]>(loadCustomThemes);
+  const [themeId, setThemeId] = useState(CLASSIC_GOLD.id);
+  const [settings, setSettings] = useState<SceneSettings>(loadSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const [performanceStats, setPerformanceStats] = useState<PerformanceStats | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [sharedView, setSharedView] = useState<Pick<ShareState, 'view' | 'mode'> | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState>(EMPTY_PLAYBACK);
+  const [slideshow, setSlideshow] = useState<SlideshowState>('off');
+  const sceneRef = useRef<Scene3DHandle>(null);
+  // Mode and focused photo, shared by the scene and the UI
+  const [sceneController] = useState(() => new SceneController());
+  const musicRef = useRef<MusicPlayer | null>(null);
+  // Guards against a second clip starting before the recording state has re-rendered
+  const recordingRef = useRef(false);
+  // Settings waiting to be written, and the timer that writes them
+  const pendingSettingsRef = useRef<SceneSettings | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Restore the memory library from the previous session
+  useEffect(() => {
+    loadMemories()
+      .then(stored => setMemories(prev => [...stored, ...prev]))
+      .catch(err => console.error("Error loading memory library:", err));
+  }, []);
+
+  // Background music; its analyser also drives the scene's lights (see Scene3D's sampleAudio)
+  useEffect(() => {
+    const music = new MusicPlayer(setPlayback);
+    musicRef.current = music;
+    return () => {
+      music.dispose();
+      musicRef.current = null;
+      setPlayback(EMPTY_PLAYBACK);
+    };
+  }, []);
+
+  useEffect(() => {
+    musicRef.current?.setVolume(settings.music.volume);
+  }, [settings.music.volume]);
+
+  // Open share links on load, and when another link is pasted into the same tab
+  useEffect(() => {
+    const applySharedState = () => {
+      const shared = decodeShareState(window.location.hash);
+      if (!shared) return;
+      setFormation(shared.formation);
+      // Custom themes from a link are used for this session without being saved
+      if (!BUILT_IN_THEMES.some(t => t.id === shared.theme.id)) {
+        setCustomThemes(prev => [...prev.filter(t => t.id !== shared.theme.id), shared.theme]);
+      }
+      setThemeId(shared.theme.id);
+      setSettings(prev => ({
+        ...prev,
+        particles: shared.particles,
+        ornamentMix: shared.ornamentMix,
+        greeting: shared.greeting,
+      }));
+      setSharedView({ view: shared.view, mode: shared.mode });
+    };
+    applySharedState();
+    window.addEventListener('hashchange', applySharedState);
+    return () => window.removeEventListener('hashchange', applySharedState);
+  }, []);
+
+  // Scene3D returns to TREE when the formation changes, so the shared mode and angle are
+  // applied once that has happened (child effects run before this one)
+  useEffect(() => {
+    if (!sharedView) return;
+    sceneRef.current?.restoreView(sharedView.view, sharedView.mode);
+    setSharedView(null);
+  }, [sharedView]);
+
+  const subscribeHandFrames = useCallback(
+    (listener: HandFrameListener) => sceneRef.current?.subscribeHandFrames(listener) ?? (() => {}),
+    []
+  );
+
+  const sampleAudio = useCallback((now: number) => musicRef.current?.sample(now) ?? null, []);
+
+  const greeting = settings.greeting.trim() || DEFAULT_GREETING;
+  const subtitle = settings.greeting.trim() ? null : DEFAULT_SUBTITLE;
+
+  const themes = [...BUILT_IN_THEMES, ...customThemes];
+  const theme = themes.find(t => t.id === themeId) ?? CLASSIC_GOLD;
+
+  // The overlay reads its accent colours from CSS variables so themes switch live
+  const themeStyle = {
+    '--accent': toRgbChannels(theme.ui.accent),
+    '--highlight': toRgbChannels(theme.ui.highlight),
+    '--glow': toRgbChannels(theme.ui.glow),
+  } as React.CSSProperties;
+
+  const handleImportTheme = async (file: File) => {
+    try {
+      const imported = parseTheme(JSON.parse(await file.text()));
+      setCustomThemes(saveCustomTheme(imported));
+      setThemeId(imported.id);
+    } catch (err) {
+      window.alert(err instanceof Error ? `Could not import theme: ${err.message}` : 'Could not import theme');
+    }
+  };
+
+  const handleRemoveTheme = (id: string) => {
+    setCustomThemes(removeCustomTheme(id));
+    if (id === themeId) setThemeId(CLASSIC_GOLD.id);
+  };
+
+  const flushSettings = () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    if (pendingSettingsRef.current) saveSettings(pendingSettingsRef.current);
+    pendingSettingsRef.current = null;
+  };
+
+  // Sliders change the settings many times a second while dragged; store them once they settle
+  const handleSettingsChange = (next: SceneSettings) => {
+    setSettings(next);
+    pendingSettingsRef.current = next;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flushSettings, 400);
+  };
+
+  // ...and before the page goes away
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSettings);
+    return () => window.removeEventListener('pagehide', flushSettings);
+  }, []);
+
+  const handleResetSettings = () => {
+    pendingSettingsRef.current = null;
+    flushSettings();
+    clearSettings();
+    setSettings(DEFAULT_SCENE_SETTINGS);
+  };
+
+  const handleToggleSnow = () => {
+    handleSettingsChange({ ...settings, snow: { ...settings.snow, enabled: !settings.snow.enabled } });
+  };
+
+  const handleCapture = async (kind: CaptureKind) => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    if (kind === 'still') {
+      try {
+        const { scale, includeTitle } = settings.capture;
+        const still = await scene.captureStill({ scale, title: includeTitle ? greeting : null, subtitle });
+        downloadBlob(still, captureFilename('png'));
+      } catch (err) {
+        window.alert(err instanceof Error ? `Could not save the image: ${err.message}` : 'Could not save the image');
+      }
+      return;
+    }
+
+    if (recordingRef.current) return;
+    recordingRef.current = true;
+    setRecording(true);
+    try {
+      downloadBlob(await scene.recordClip(settings.capture.clipSeconds), captureFilename('webm'));
+    } catch (err) {
+      window.alert(err instanceof Error ? `Could not record a clip: ${err.message}` : 'Could not record a clip');
+    } finally {
+      recordingRef.current = false;
+      setRecording(false);
+    }
+  };
+
+  /** Puts a link to the current scene in the address bar and on the clipboard. */
+  const handleCopyLink = async (): Promise<boolean> => {
+    const current = sceneRef.current?.getView() ?? { mode: sceneController.mode, view: DEFAULT_VIEW };
+    const url = shareUrl({
+      mode: current.mode,
+      formation,
+      theme,
+      particles: settings.particles,
+      ornamentMix: settings.ornamentMix,
+      greeting: settings.greeting,
+      view: current.view,
+    });
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      return true;
+    } catch {
+      window.prompt('Copy this link:', url);
+      return false;
+    }
+  };
+
+  const handleLoadMusic = async (files: FileList) => {
+    try {
+      await musicRef.current?.load(files);
+    } catch (err) {
+      window.alert(err instanceof Error ? `Could not play the music: ${err.message}` : 'Could not play the music');
+    }
+  };
+
+  const handleMusicError = (err: unknown) => console.error("Error playing music:", err);
 
   const handleLoadComplete = () => {
     setLoading(false);
   };
 
-  const handleUpload = (files: FileList) => {
-    setUploadedFiles(files);
+  const handleUpload = async (files: FileList) => {
+    try {
+      const added = await addMemories(files);
+      setMemories(prev => [...prev, ...added]);
+    } catch (err) {
+      window.alert(err instanceof Error ? `Could not add memories: ${err.message}` : 'Could not add memories');
+    }
+  };
+
+  const handleClearMemories = async () => {
+    if (!window.confirm('Remove all saved memories from this device?')) return;
+    try {
+      await clearMemories();
+      setMemories([]);
+      handleSetDefaultMemory(null);
+    } catch (err) {
+      window.alert(err instanceof Error ? `Could not clear the memories: ${err.message}` : 'Could not clear the memories');
+    }
+  };
+
+  const handleSetDefaultMemory = (id: string | null) => {
+    setDefaultMemoryId(id);
+    saveDefaultMemoryId(id);
+  };
+
+  const handleRemoveMemory = async (id: string) => {
+    try {
+      await removeMemory(id);
+      setMemories(prev => prev.filter(m => m.id !== id));
+      if (id === defaultMemoryId) handleSetDefaultMemory(null);
+    } catch (err) {
+      window.alert(err instanceof Error ? `Could not delete the photo: ${err.message}` : 'Could not delete the photo');
+    }
+  };
+
+  // Shows what the library holds after a write failed part-way
+  const reloadMemories = () =>
+    loadMemories()
+      .then(setMemories)
+      .catch(err => console.error("Error loading memory library:", err));
+
+  const handleReorderMemories = async (ids: string[]) => {
+    // Reorder right away so the frames move while the library is being written (memories not
+    // listed keep their order after the listed ones), and reload the library if it can't be
+    setMemories(prev => {
+      const listed = ids.map(id => prev.find(m => m.id === id)).filter((m): m is UploadedImage => !!m);
+      return [...listed, ...prev.filter(m => !ids.includes(m.id))];
+    });
+    try {
+      await reorderMemories(ids);
+    } catch (err) {
+      reloadMemories();
+      window.alert(err instanceof Error ? `Could not reorder the photos: ${err.message}` : 'Could not reorder the photos');
+    }
+  };
+
+  const handleUpdateMemory = async (id: string, look: MemoryLook) => {
+    // Restyle right away so the frame changes while the library is being written, then show
+    // what was stored (reloading the library if nothing was)
+    setMemories(prev => prev.map(m => (m.id === id ? { id: m.id, url: m.url, ...sanitizeLook(look) } : m)));
+    try {
+      const updated = await updateMemory(id, look);
+      setMemories(prev => prev.map(m => (m.id === id ? updated : m)));
+    } catch (err) {
+      reloadMemories();
+      window.alert(err instanceof Error ? `Could not change the frame: ${err.message}` : 'Could not change the frame');
+    }
+  };
+
+  const handleReplaceMemory = async (id: string, file: File) => {
+    try {
+      const replacement = await replaceMemory(id, file);
+      setMemories(prev => prev.map(m => (m.id === id ? replacement : m)));
+      if (id === defaultMemoryId) handleSetDefaultMemory(replacement.id);
+    } catch (err) {
+      window.alert(err instanceof Error ? `Could not replace the photo: ${err.message}` : 'Could not replace the photo');
+    }
+  };
+
+  const handleExportMemories = async () => {
+    try {
+      downloadBlob(await exportMemories(), 'christmas-memories.json');
+    } catch (err) {
+      console.error("Error exporting memory library:", err);
+    }
+  };
+
+  const handleImportMemories = async (file: File) => {
+    try {
+      const added = await importMemories(file);
+      setMemories(prev => [...prev, ...added]);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Could not import memories');
+    }
   };
 
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden select-none">
-      <Scene3D 
-        onLoadComplete={handleLoadComplete} 
-        newUploads={uploadedFiles}
+    <div className="relative w-full h-screen bg-black overflow-hidden select-none" style={themeStyle}>
+      <Scene3D
+        ref={sceneRef}
+        onLoadComplete={handleLoadComplete}
+        memories={memories}
+        defaultMemoryId={defaultMemoryId}
+        formation={formation}
+        controller={sceneController}
+        onHandCountChange={setHandCount}
+        onTrackingStatusChange={setTrackingStatus}
+        onGestureChange={setGesture}
+        onPerformanceChange={setPerformanceStats}
+        onCaptureRequest={handleCapture}
+        onSlideshowChange={setSlideshow}
+        onSnowToggleRequest={handleToggleSnow}
+        sampleAudio={sampleAudio}
+        theme={theme}
+        settings={settings}
       />
-      
-      <UILayer 
+
+      <UILayer
         isLoading={loading}
         onUpload={handleUpload}
+        memories={memories}
+        defaultMemoryId={defaultMemoryId}
+        galleryOpen={galleryOpen}
+        toggleGallery={() => {
+          setGalleryOpen(!galleryOpen);
+          setSettingsOpen(false);
+        }}
+        onRemoveMemory={handleRemoveMemory}
+        onReorderMemories={handleReorderMemories}
+        onReplaceMemory={handleReplaceMemory}
+        onUpdateMemory={handleUpdateMemory}
+        onSetDefaultMemory={handleSetDefaultMemory}
+        onClearMemories={handleClearMemories}
+        onExportMemories={handleExportMemories}
+        onImportMemories={handleImportMemories}
+        formation={formation}
+        onFormationChange={setFormation}
+        handCount={handCount}
+        controller={sceneController}
+        trackingStatus={trackingStatus}
+        gesture={gesture}
+        hudVisible={hudVisible}
+        toggleHud={() => setHudVisible(!hudVisible)}
+        subscribeHandFrames={subscribeHandFrames}
+        themes={themes}
+        themeId={theme.id}
+        onThemeChange={setThemeId}
+        onImportTheme={handleImportTheme}
+        onRemoveTheme={handleRemoveTheme}
+        settings={settings}
+        themeBloom={theme.bloom}
+        settingsOpen={settingsOpen}
+        toggleSettings={() => {
+          setSettingsOpen(!settingsOpen);
+          setGalleryOpen(false);
+        }}
+        onSettingsChange={handleSettingsChange}
+        onResetSettings={handleResetSettings}
+        performanceStats={performanceStats}
+        recording={recording}
+        clipSeconds={settings.capture.clipSeconds}
+        onCapture={handleCapture}
+        greeting={greeting}
+        subtitle={subtitle}
+        greetingInput={settings.greeting}
+        onGreetingChange={text => handleSettingsChange({ ...settings, greeting: text })}
+        onToggleGreeting={() => sceneRef.current?.setMode(sceneController.mode === 'GREETING' ? 'TREE' : 'GREETING')}
+        onCopyLink={handleCopyLink}
+        slideshow={slideshow}
+        onToggleSlideshow={() => sceneRef.current?.setSlideshow(slideshow === 'off')}
+        snowEnabled={settings.snow.enabled}
+        onToggleSnow={handleToggleSnow}
+        playback={playback}
+        onLoadMusic={handleLoadMusic}
+        onToggleMusic={() => musicRef.current?.toggle().catch(handleMusicError)}
+        onSkipTrack={step => musicRef.current?.skip(step).catch(handleMusicError)}
+        onMusicChange={music => handleSettingsChange({ ...settings, music })}
+        onPrevPhoto={() => sceneRef.current?.showPhoto(-1)}
+        onNextPhoto={() => sceneRef.current?.showPhoto(1)}
         isHidden={uiHidden}
         toggleVisibility={() => setUiHidden(!uiHidden)}
       />
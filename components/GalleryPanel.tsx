@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { Crop, GripVertical, RefreshCw, Star, Trash2, X } from 'lucide-react';
+import { FrameStyle, MemoryLook, PhotoCrop, UploadedImage } from '../types';
+import { MAX_CAPTION_LENGTH, isVideoMemory } from '../services/memoryLibrary';
+import { FRAME_STYLES } from '../scene/photoFrames';
+
+// --- Gallery Drawer ---
+// Lists the memory library (photos and video clips) in browsing order. Rows are dragged to
+// reorder; each memory can be replaced, deleted or chosen as the default, which puts it in the
+// placeholder frame in place of the greeting card. A memory can also have its own frame style
+// (instead of the one in the settings), be cropped to a square around a point picked on its
+// thumbnail, and carry a caption for polaroid frames.
+
+interface GalleryPanelProps {
+  memories: UploadedImage[];
+  defaultMemoryId: string | null;
+  /** Frame style of memories that don't choose their own. */
+  frameStyle: FrameStyle;
+  /** Shown on the placeholder tile while no default photo is chosen. */
+  greeting: string;
+  onRemove: (id: string) => void;
+  onReorder: (ids: string[]) => void;
+  onReplace: (id: string, file: File) => void;
+  onUpdate: (id: string, look: MemoryLook) => void;
+  onSetDefault: (id: string | null) => void;
+  onClose: () => void;
+}
+
+const thumbClass = "w-12 h-12 shrink-0 object-cover border border-[rgb(var(--accent)/0.3)]";
+
+// Video clips show their first frame; cropped memories show the square that will be framed
+const Thumbnail: React.FC<{ memory: UploadedImage }> = ({ memory }) => {
+  const style = memory.crop ? { objectPosition: `${memory.crop.x * 100}% ${memory.crop.y * 100}%` } : undefined;
+  return isVideoMemory(memory)
+    ? <video src={memory.url} muted playsInline preload="metadata" className={thumbClass} style={style} />
+    : <img src={memory.url} alt="" className={thumbClass} style={style} />;
+};
+
+const CENTRE: PhotoCrop = { x: 0.5, y: 0.5 };
+
+const lookOf = ({ frameStyle, crop, caption }: UploadedImage): MemoryLook => ({ frameStyle, crop, caption });
+
+const fieldClass = "bg-black/40 border border-[rgb(var(--accent)/0.3)] text-[rgb(var(--accent))] px-1 py-0.5 outline-none focus:border-[rgb(var(--accent))]";
+
+// Saved when the field loses focus (or on Enter) rather than on every keystroke
+const CaptionInput: React.FC<{ caption: string; onCommit: (caption: string) => void }> = ({ caption, onCommit }) => {
+  const [value, setValue] = useState(caption);
+  const commit = () => {
+    if (value.trim() !== caption) onCommit(value.trim());
+  };
+  return (
+    <input
+      type="text"
+      value={value}
+      maxLength={MAX_CAPTION_LENGTH}
+      placeholder="Caption"
+      onChange={e => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className={`${fieldClass} flex-1 min-w-0 normal-case tracking-normal placeholder:text-[rgb(var(--accent)/0.3)]`}
+    />
+  );
+};
+
+const iconButtonClass = "text-[rgb(var(--accent)/0.4)] hover:text-[rgb(var(--accent))] transition-colors duration-300 cursor-pointer";
+
+export const GalleryPanel: React.FC<GalleryPanelProps> = ({
+  memories,
+  defaultMemoryId,
+  frameStyle,
+  greeting,
+  onRemove,
+  onReorder,
+  onReplace,
+  onUpdate,
+  onSetDefault,
+  onClose,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const defaultMemory = memories.find(m => m.id === defaultMemoryId);
+
+  const sectionClass = "p-3 space-y-2.5 border-t border-[rgb(var(--accent)/0.2)]";
+  const headingClass = "text-[rgb(var(--accent)/0.7)] tracking-[0.3em]";
+
+  const handleDrop = (target: number) => {
+    if (dragIndex !== null && dragIndex !== target) {
+      const ids = memories.map(m => m.id);
+      const [moved] = ids.splice(dragIndex, 1);
+      ids.splice(target, 0, moved);
+      onReorder(ids);
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleReplaceChange = (id: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onReplace(id, file);
+    e.target.value = '';
+  };
+
+  const updateLook = (memory: UploadedImage, change: MemoryLook) => onUpdate(memory.id, { ...lookOf(memory), ...change });
+
+  // Clicking a cropped thumbnail moves the crop focus to the clicked point
+  const handleThumbnailClick = (memory: UploadedImage) => (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!memory.crop) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    updateLook(memory, { crop: { x, y } });
+  };
+
+  return (
+    <div className="pointer-events-auto absolute top-8 left-8 w-[260px] max-h-[calc(100%-4rem)] overflow-y-auto bg-black/50 backdrop-blur-md border border-[rgb(var(--accent)/0.2)] text-[10px] tracking-widest uppercase">
+      <div className="flex items-center justify-between p-3">
+        <span className="text-[rgb(var(--accent))] tracking-[0.3em]">Gallery ({memories.length})</span>
+        <button onClick={onClose} aria-label="Close gallery" className={iconButtonClass}>
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className={sectionClass}>
+        <span className={headingClass}>Default Frame</span>
+        <div className="flex items-center gap-3">
+          {defaultMemory ? (
+            <Thumbnail memory={defaultMemory} />
+          ) : (
+            <div className={`${thumbClass} flex items-center justify-center bg-black p-1 text-center text-[6px] leading-tight text-[rgb(var(--highlight))] overflow-hidden`}>
+              {greeting}
+            </div>
+          )}
+          <span className="flex-1 text-[rgb(var(--accent)/0.4)]">{defaultMemory ? 'Chosen memory' : 'Greeting card'}</span>
+          {defaultMemory && (
+            <button onClick={() => onSetDefault(null)} title="Show the greeting card again" className={iconButtonClass}>
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <span className={headingClass}>Photos</span>
+        {memories.length === 0 && (
+          <p className="text-[rgb(var(--accent)/0.4)] normal-case tracking-normal">Add memories to arrange them here.</p>
+        )}
+        <ul className="space-y-1.5">
+          {memories.map((memory, i) => {
+            const isDefault = memory.id === defaultMemoryId;
+            return (
+              <li
+                key={memory.id}
+                draggable
+                onDragStart={e => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(i);
+                }}
+                onDragOver={e => {
+                  e.preventDefault();
+                  setOverIndex(i);
+                }}
+                onDrop={e => {
+                  e.preventDefault();
+                  handleDrop(i);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setOverIndex(null);
+                }}
+                className={`p-1 space-y-1 border transition-colors duration-300 ${
+                  overIndex === i && dragIndex !== null && dragIndex !== i
+                    ? 'border-[rgb(var(--accent))]'
+                    : 'border-transparent'
+                } ${dragIndex === i ? 'opacity-40' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <GripVertical size={12} className="shrink-0 cursor-grab text-[rgb(var(--accent)/0.3)]" />
+                  <div
+                    onClick={handleThumbnailClick(memory)}
+                    title={memory.crop ? 'Click to move the crop' : undefined}
+                    className={memory.crop ? 'cursor-crosshair' : undefined}
+                  >
+                    <Thumbnail memory={memory} />
+                  </div>
+                  <span className="flex-1 text-[rgb(var(--accent)/0.5)]">{i + 1}</span>
+                  <button
+                    onClick={() => updateLook(memory, { crop: memory.crop ? undefined : CENTRE })}
+                    title={memory.crop ? 'Show the whole photo' : 'Crop to a square'}
+                    className={memory.crop ? 'text-[rgb(var(--accent))]' : iconButtonClass}
+                  >
+                    <Crop size={12} />
+                  </button>
+                  <button
+                    onClick={() => onSetDefault(isDefault ? null : memory.id)}
+                    title={isDefault ? 'Default photo' : 'Set as default'}
+                    className={isDefault ? 'text-[rgb(var(--accent))]' : iconButtonClass}
+                  >
+                    <Star size={12} fill={isDefault ? 'currentColor' : 'none'} />
+                  </button>
+                  <label title="Replace photo" className={iconButtonClass}>
+                    <RefreshCw size={12} />
+                    <input type="file" accept="image/*,video/*" className="hidden" onChange={handleReplaceChange(memory.id)} />
+                  </label>
+                  <button onClick={() => onRemove(memory.id)} title="Delete photo" className={iconButtonClass}>
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+                <div className="flex items-center gap-1.5 pl-5">
+                  <select
+                    value={memory.frameStyle ?? ''}
+                    onChange={e => updateLook(memory, { frameStyle: FRAME_STYLES.find(s => s.id === e.target.value)?.id })}
+                    title="Frame style"
+                    className={`${fieldClass} uppercase tracking-widest`}
+                  >
+                    <option value="">Default ({FRAME_STYLES.find(s => s.id === frameStyle)?.label})</option>
+                    {FRAME_STYLES.map(({ id, label }) => (
+                      <option key={id} value={id}>{label}</option>
+                    ))}
+                  </select>
+                  {(memory.frameStyle ?? frameStyle) === 'polaroid' && (
+                    <CaptionInput
+                      key={memory.caption ?? ''}
+                      caption={memory.caption ?? ''}
+                      onCommit={caption => updateLook(memory, { caption: caption || undefined })}
+                    />
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
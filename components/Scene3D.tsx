@@ -1,40 +1,71 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useImperativeHandle, useRef } from 'react';
 import * as THREE from 'three';
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
 import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { AppMode, ParticleConfig, AppColors } from '../types';
-
-const CONFIG: { colors: AppColors; particles: ParticleConfig; camera: { z: number } } = {
-  colors: {
-    bg: 0x000000,
-    champagneGold: 0xffd700, // Metallic Gold
-    deepGreen: 0x165b33,     // Christmas Tree Green
-    accentRed: 0xc41230,     // Christmas Red
-  },
-  particles: {
-    count: 1200,
-    dustCount: 2000,
-    treeHeight: 24,
-    treeRadius: 8,
-  },
+import { FilesetResolver, HandLandmarker, WasmFileset } from '@mediapipe/tasks-vision';
+import { AppMode, GarlandSettings, OrnamentMix, ParticleConfig, PerformanceStats, SceneSettings, SceneView, SnowSettings, Theme, UploadedImage, TrackingState, TrackingStatus } from '../types';
+import { ASSET_URLS } from '../services/assets';
+import { canvasToBlob, drawTitleOverlay, recordCanvas } from '../services/capture';
+import { AudioLevels } from '../services/music';
+import { isVideoMemory } from '../services/memoryLibrary';
+import { Formation, getFormation, scatterPosition, seededRandom } from '../scene/formations';
+import { ParticleBatch, ParticleField } from '../scene/particleField';
+import { QualityGovernor, QualityTier } from '../scene/qualityGovernor';
+import { DEFAULT_GREETING, sampleTextPoints, wrapText } from '../scene/textFormation';
+import { Snowfall } from '../scene/snowfall';
+import { Wind } from '../scene/wind';
+import { LightStrings } from '../scene/lightStrings';
+import { Slideshow, SlideshowState } from '../scene/slideshow';
+import { SceneController } from '../scene/sceneController';
+import { PhotoTextures } from '../scene/photoTextures';
+import { VideoMemories } from '../scene/videoMemories';
+import { DEFAULT_PHOTO_ORNAMENT_CONFIG, HangerAssets, HangingSlot, createHanger, createHangerAssets, hangingPosition, hangingSlot } from '../scene/photoOrnaments';
+import { FrameLook, PhotoFrames, lookKey, releaseFrame, textureAspect } from '../scene/photoFrames';
+import { disposeObject } from '../scene/disposal';
+import { GestureRecognizer, GestureType } from '../input/gestureRecognizer';
+import { TwoHandTracker } from '../input/twoHandGesture';
+import { SwipeDetector } from '../input/swipeDetector';
+import { CaptureKind, InputAction, InputController, InputSource } from '../input/inputController';
+import { HandFrameListener } from './TrackingHUD';
+
+// Colours come from the active Theme (see scene/themes.ts), particle counts and tree size
+// from SceneSettings (see services/settings.ts)
+const CONFIG = {
   camera: {
     z: 50,
   },
 };
 
+// Id the scene controller knows the placeholder frame by
+const PLACEHOLDER_PHOTO_ID = 'placeholder';
+
+/** Slow pan (in view units) and zoom applied to the focused photo during a slideshow. */
+interface KenBurns {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
 // --- Particle Class Definition ---
 class Particle {
   mesh: THREE.Mesh | THREE.Group;
   type: string;
   isDust: boolean;
-  posTree: THREE.Vector3;
+  posFormation: THREE.Vector3;
   posScatter: THREE.Vector3;
   baseScale: number;
   spinSpeed: THREE.Vector3;
   id: number;
+  // Photos hung on the tree: hook position, facing and sway, plus the ribbon drawn when hung
+  hanging: HangingSlot = { hook: new THREE.Vector3(), yaw: 0 };
+  swayPhase = Math.random() * Math.PI * 2;
+  hanger: THREE.Object3D | null = null;
+  // Photos: their own material, and the height of the frame's top edge the ribbon starts from
+  photoMaterial: THREE.MeshBasicMaterial | null = null;
+  frameTop = 0;
+  private hangTarget = new THREE.Vector3();
 
   constructor(mesh: THREE.Mesh | THREE.Group, type: string, isDust: boolean = false) {
     this.mesh = mesh;
@@ -42,7 +73,7 @@ class Particle {
     this.isDust = isDust;
     this.id = Math.random();
 
-    this.posTree = new THREE.Vector3();
+    this.posFormation = new THREE.Vector3();
     this.posScatter = new THREE.Vector3();
     this.baseScale = mesh.scale.x;
 
@@ -57,33 +88,46 @@ class Particle {
   }
 
   calculatePositions() {
-    // TREE SHAPE: Spiral
-    const h = CONFIG.particles.treeHeight;
-    const halfH = h / 2;
-    let t = Math.random();
-    t = Math.pow(t, 0.8); // Bias towards bottom
-    const y = t * h - halfH;
-    let rMax = CONFIG.particles.treeRadius * (1.0 - t);
-    if (rMax < 0.5) rMax = 0.5;
-    const angle = t * 50 * Math.PI + Math.random() * Math.PI;
-    const r = rMax * (0.8 + Math.random() * 0.4);
-    this.posTree.set(Math.cos(angle) * r, y, Math.sin(angle) * r);
+    // FORMATION SHAPE: assigned by the scene (see applyFormation)
 
     // SCATTER SHAPE: Large Cloud/Sphere
-    let rScatter = this.isDust ? 15 + Math.random() * 25 : 10 + Math.random() * 15;
-    const theta = Math.random() * Math.PI * 2;
-    const phi = Math.acos(2 * Math.random() - 1);
-    this.posScatter.set(
-      rScatter * Math.sin(phi) * Math.cos(theta),
-      rScatter * Math.sin(phi) * Math.sin(theta),
-      rScatter * Math.cos(phi)
-    );
+    scatterPosition(this.posScatter, this.isDust);
   }
 
-  update(dt: number, mode: AppMode, time: number, focusTarget: THREE.Object3D | null, mainGroupMatrix: THREE.Matrix4) {
-    let target = this.posTree;
+  assignFormation(formation: Formation, index: number, count: number, config: ParticleConfig) {
+    formation.position({ index, count, random: seededRandom(this.id) }, this.posFormation, config);
+  }
+
+  assignHanging(index: number, count: number, config: ParticleConfig) {
+    hangingSlot(index, count, config, this.hanging);
+  }
+
+  setFrame(photoMaterial: THREE.MeshBasicMaterial, hanger: THREE.Object3D, frameTop: number) {
+    this.photoMaterial = photoMaterial;
+    this.hanger = hanger;
+    this.frameTop = frameTop;
+  }
 
-    if (mode === 'SCATTER') target = this.posScatter;
+  update(
+    dt: number,
+    mode: AppMode,
+    time: number,
+    focusTarget: THREE.Object3D | null,
+    mainGroupMatrix: THREE.Matrix4,
+    cameraZ: number,
+    kenBurns: KenBurns | null = null,
+    hung = false
+  ) {
+    let target = this.posFormation;
+    const hanging = hung && mode === 'TREE';
+    if (this.hanger) this.hanger.visible = hanging;
+    if (hanging) {
+      // The centre hangs below the hook at the frame's current swing
+      target = hangingPosition(this.hangTarget, this.hanging.hook, this.hanging.yaw, this.mesh.rotation.z, this.mesh.scale.x, this.frameTop);
+    }
+
+    // Photos stand aside while the ornaments spell the greeting
+    if (mode === 'SCATTER' || mode === 'GREETING') target = this.posScatter;
     else if (mode === 'FOCUS') {
       if (this.mesh === focusTarget) {
         // Position directly in front of camera
@@ -92,7 +136,7 @@ class Particle {
         // A better approach for "Focus" in a rotating group is to inverse project or just stop group rotation (handled in animate loop)
         // Here we just bring it close to the center and front.
         const invMatrix = new THREE.Matrix4().copy(mainGroupMatrix).invert();
-        const cameraPosLocal = new THREE.Vector3(0, 0, 38).applyMatrix4(invMatrix); 
+        const cameraPosLocal = new THREE.Vector3(kenBurns?.panX ?? 0, kenBurns?.panY ?? 0, cameraZ - 12).applyMatrix4(invMatrix);
         target = cameraPosLocal;
       } else {
         target = this.posScatter;
@@ -106,10 +150,19 @@ class Particle {
     this.mesh.position.lerp(target, lerpSpeed * dt);
 
     // Rotation
-    if (mode === 'SCATTER' || (mode === 'FOCUS' && !isTarget)) {
+    if (mode === 'SCATTER' || mode === 'GREETING' || (mode === 'FOCUS' && !isTarget)) {
       this.mesh.rotation.x += this.spinSpeed.x * dt;
       this.mesh.rotation.y += this.spinSpeed.y * dt;
       this.mesh.rotation.z += this.spinSpeed.z * dt;
+    } else if (hanging) {
+      // Face outward and swing from the hook, taking the shortest way round from any spin
+      const { swayAngle, swaySpeed } = DEFAULT_PHOTO_ORNAMENT_CONFIG;
+      const sway = swayAngle * Math.sin(time * swaySpeed + this.swayPhase);
+      const toAngle = (from: number, to: number) =>
+        THREE.MathUtils.euclideanModulo(to - from + Math.PI, Math.PI * 2) - Math.PI;
+      this.mesh.rotation.x += toAngle(this.mesh.rotation.x, 0) * Math.min(1, 3 * dt);
+      this.mesh.rotation.y += toAngle(this.mesh.rotation.y, this.hanging.yaw) * Math.min(1, 2 * dt);
+      this.mesh.rotation.z += toAngle(this.mesh.rotation.z, sway) * Math.min(1, 3 * dt);
     } else if (mode === 'TREE') {
       // Align randomly but structured
       this.mesh.rotation.x = THREE.MathUtils.lerp(this.mesh.rotation.x, 0, dt);
@@ -121,7 +174,7 @@ class Particle {
       // We'll handle orientation in a simple way: zero out rotation to face forward relative to camera if group wasn't rotating
       // But group IS rotating. So we make it look at the camera's local position in the group.
       const invMatrix = new THREE.Matrix4().copy(mainGroupMatrix).invert();
-      const cameraLocal = new THREE.Vector3(0, 0, CONFIG.camera.z).applyMatrix4(invMatrix);
+      const cameraLocal = new THREE.Vector3(0, 0, cameraZ).applyMatrix4(invMatrix);
       this.mesh.lookAt(cameraLocal);
     }
 
@@ -134,8 +187,10 @@ class Particle {
     } else if (mode === 'SCATTER' && this.type === 'PHOTO') {
       s = this.baseScale * 2.0; // Photos larger in scatter
     } else if (mode === 'FOCUS') {
-      if (isTarget) s = 6.0; // Big zoom for focused photo
+      if (isTarget) s = 6.0 * (kenBurns?.zoom ?? 1); // Big zoom for focused photo
       else s = this.baseScale * 0.5; // Diminish others
+    } else if (mode === 'GREETING') {
+      s = this.baseScale * 0.5;
     }
 
     this.mesh.scale.lerp(new THREE.Vector3(s, s, s), 3.0 * dt);
@@ -144,68 +199,357 @@ class Particle {
 
 interface Scene3DProps {
   onLoadComplete: () => void;
-  newUploads: FileList | null;
+  memories: UploadedImage[];
+  /** Memory shown in the placeholder frame instead of the greeting card. */
+  defaultMemoryId?: string | null;
+  formation: string;
+  /** Mode and focused photo; the scene drives it from input and reads it every frame. Keep it for the scene's lifetime. */
+  controller: SceneController;
+  onHandCountChange?: (count: number) => void;
+  onTrackingStatusChange?: (status: TrackingStatus) => void;
+  onGestureChange?: (gesture: GestureType) => void;
+  /** Quality tier and measured frame rate, reported about every two seconds. */
+  onPerformanceChange?: (stats: PerformanceStats) => void;
+  /** Keyboard shortcut or victory gesture asking for a still or a clip. */
+  onCaptureRequest?: (kind: CaptureKind) => void;
+  /** The slideshow started, stopped, or was held by a hand in view. */
+  onSlideshowChange?: (state: SlideshowState) => void;
+  /** Keyboard shortcut asking to turn the snow on or off. */
+  onSnowToggleRequest?: () => void;
+  /** Levels of the music playing, sampled once per frame; null while silent. */
+  sampleAudio?: (now: number) => AudioLevels | null;
+  theme: Theme;
+  settings: SceneSettings;
+  ref?: React.Ref<Scene3DHandle>;
 }
 
-export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads }) => {
+export interface Scene3DHandle {
+  /** Focuses the photo `step` places after (negative: before) the current one. */
+  showPhoto: (step: number) => void;
+  /** Calls `listener` with the landmarks of every processed webcam frame; returns an unsubscribe. */
+  subscribeHandFrames: (listener: HandFrameListener) => () => void;
+  /** Renders a PNG still, optionally larger than the window and with a title (and subtitle) drawn on. */
+  captureStill: (options: { scale: number; title: string | null; subtitle: string | null }) => Promise<Blob>;
+  /** Records the canvas for `seconds` and resolves with a WebM clip. */
+  recordClip: (seconds: number) => Promise<Blob>;
+  /** Current mode and camera angle, for share links. */
+  getView: () => { mode: AppMode; view: SceneView };
+  /** Turns the tree to `view` and switches to `mode`. */
+  restoreView: (view: SceneView, mode: AppMode) => void;
+  /** Switches mode as the input layer does (stopping any slideshow); FOCUS resumes at the last photo shown. */
+  setMode: (mode: AppMode) => void;
+  /** Starts or stops the timed slideshow through all photos. */
+  setSlideshow: (playing: boolean) => void;
+}
+
+export const Scene3D: React.FC<Scene3DProps> = ({
+  onLoadComplete,
+  memories,
+  defaultMemoryId = null,
+  formation,
+  controller,
+  onHandCountChange,
+  onTrackingStatusChange,
+  onGestureChange,
+  onPerformanceChange,
+  onCaptureRequest,
+  onSlideshowChange,
+  onSnowToggleRequest,
+  sampleAudio,
+  theme,
+  settings,
+  ref,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   
   // State refs
-  const modeRef = useRef<AppMode>('TREE');
-  const particlesRef = useRef<Particle[]>([]);
+  const particlesRef = useRef<Particle[]>([]); // photo frames, still one Object3D each
+  const fieldRef = useRef<ParticleField | null>(null);
   const mainGroupRef = useRef<THREE.Group | null>(null);
   const photoGroupRef = useRef<THREE.Group | null>(null);
-  const focusTargetRef = useRef<THREE.Object3D | null>(null);
+  const formationRef = useRef(formation);
+  const themeRef = useRef(theme);
+  // Recolours the live scene; set while the scene exists
+  const applyThemeRef = useRef<((theme: Theme) => void) | null>(null);
+  const settingsRef = useRef(settings);
+  // Resizes the live scene to new settings; set while the scene exists
+  const applySettingsRef = useRef<((settings: SceneSettings, previous: SceneSettings) => void) | null>(null);
+  // Greeting text as particle targets, resampled when the greeting changes
+  const textPointsRef = useRef<Float32Array>(new Float32Array(0));
+
+  // Memory library refs (id -> photo particle, null while its texture is loading)
+  const memoriesRef = useRef<UploadedImage[]>(memories);
+  const memoryParticlesRef = useRef<Map<string, Particle | null>>(new Map());
+  const defaultMemoryIdRef = useRef(defaultMemoryId);
+  // Photo textures sized to a shared memory budget
+  const photoTexturesRef = useRef(new PhotoTextures());
+  // Video clips playing in frames; the focused one plays with sound
+  const videoMemoriesRef = useRef(new VideoMemories());
+  // Frame styles and the hook and ribbon, shared by every photo; set while the scene exists
+  const photoFrameRef = useRef<{ frames: PhotoFrames; hanger: HangerAssets } | null>(null);
+  // Puts a memory (or, for null, the greeting card) in the placeholder frame; set while the scene exists
+  const applyDefaultPhotoRef = useRef<((memory: UploadedImage | null) => void) | null>(null);
   
   // Interaction refs
   const mouseRef = useRef({ x: 0, y: 0 });
   const targetRotationRef = useRef({ x: 0, y: 0 });
-  const handRef = useRef({ detected: false, x: 0, y: 0 });
+  const handRef = useRef({ detected: false, x: 0, y: 0, count: 0 });
+  // View control from drags, pinches, keys and two-hand gestures: camera distance factor,
+  // rotation not yet applied to mainGroup, and the accumulated offset steering targets add
+  const viewRef = useRef({ zoom: 1, pendingYaw: 0, yawOffset: 0, pitchOffset: 0 });
+  const pausedRef = useRef(false);
+  const inputRef = useRef<InputController | null>(null);
+  const onHandCountChangeRef = useRef(onHandCountChange);
+  onHandCountChangeRef.current = onHandCountChange;
+  const onTrackingStatusChangeRef = useRef(onTrackingStatusChange);
+  onTrackingStatusChangeRef.current = onTrackingStatusChange;
+  const onGestureChangeRef = useRef(onGestureChange);
+  onGestureChangeRef.current = onGestureChange;
+  const onPerformanceChangeRef = useRef(onPerformanceChange);
+  onPerformanceChangeRef.current = onPerformanceChange;
+  const onCaptureRequestRef = useRef(onCaptureRequest);
+  onCaptureRequestRef.current = onCaptureRequest;
+  const onSlideshowChangeRef = useRef(onSlideshowChange);
+  onSlideshowChangeRef.current = onSlideshowChange;
+  const onSnowToggleRequestRef = useRef(onSnowToggleRequest);
+  onSnowToggleRequestRef.current = onSnowToggleRequest;
+  const sampleAudioRef = useRef(sampleAudio);
+  sampleAudioRef.current = sampleAudio;
+  const handFrameListenersRef = useRef(new Set<HandFrameListener>());
+
+  // Capture: the WebGL canvas, and a renderer of one frame at a given pixel ratio (set while the scene exists)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const renderStillRef = useRef<((pixelRatio: number) => HTMLCanvasElement) | null>(null);
+
+  // The placeholder frame, first in the browsing order
+  const defaultPhotoRef = useRef<Particle | null>(null);
+
+  // Slideshow schedule, and the pan/zoom of the photo it is showing
+  const slideshowRef = useRef(new Slideshow());
+  const kenBurnsRef = useRef<{ startedAt: number; durationMs: number; direction: number } | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    showPhoto: (step: number) => {
+      stopSlideshow();
+      controller.browse(step);
+    },
+    subscribeHandFrames: (listener: HandFrameListener) => {
+      handFrameListenersRef.current.add(listener);
+      return () => { handFrameListenersRef.current.delete(listener); };
+    },
+    captureStill: async ({ scale, title, subtitle }) => {
+      if (!renderStillRef.current) throw new Error('The scene is not ready yet');
+      const still = renderStillRef.current(scale);
+      const ctx = still.getContext('2d');
+      if (title && ctx) drawTitleOverlay(ctx, title, subtitle, themeRef.current.ui, still.width / window.innerWidth);
+      return canvasToBlob(still);
+    },
+    recordClip: (seconds: number) => {
+      if (!canvasRef.current) return Promise.reject(new Error('The scene is not ready yet'));
+      return recordCanvas(canvasRef.current, seconds);
+    },
+    getView: () => {
+      const yaw = (mainGroupRef.current?.rotation.y ?? 0) + viewRef.current.pendingYaw;
+      return {
+        mode: controller.mode,
+        view: { yaw: Math.atan2(Math.sin(yaw), Math.cos(yaw)), pitch: viewRef.current.pitchOffset, zoom: viewRef.current.zoom },
+      };
+    },
+    restoreView: ({ yaw, pitch, zoom }: SceneView, mode: AppMode) => {
+      const view = viewRef.current;
+      const current = (mainGroupRef.current?.rotation.y ?? 0) + view.pendingYaw;
+      // Take the short way round to the shared angle
+      view.pendingYaw += Math.atan2(Math.sin(yaw - current), Math.cos(yaw - current));
+      view.pitchOffset = pitch;
+      view.zoom = zoom;
+      controller.setMode(mode);
+    },
+    setMode: (mode: AppMode) => {
+      stopSlideshow();
+      controller.setMode(mode);
+    },
+    setSlideshow,
+  }), []);
+
+  const setSlideshow = (playing: boolean) => {
+    if (playing) slideshowRef.current.start(performance.now());
+    else stopSlideshow();
+  };
+
+  const stopSlideshow = () => {
+    slideshowRef.current.stop();
+    kenBurnsRef.current = null;
+  };
+
+  // Photos are decoded within the texture budget; video clips become live textures
+  const loadMemoryTexture = (memory: UploadedImage): Promise<THREE.Texture> =>
+    isVideoMemory(memory)
+      ? videoMemoriesRef.current.load(memory.url)
+      : photoTexturesRef.current.load(memory.url, memoriesRef.current.length);
+
+  // A memory's own frame style, crop and caption; the settings' frame style otherwise
+  const lookFor = (memory: UploadedImage | undefined): FrameLook => ({
+    style: memory?.frameStyle ?? settingsRef.current.frameStyle,
+    crop: memory?.crop ?? null,
+    caption: memory?.caption ?? '',
+  });
+
+  // Memories with a frame of their own; the default one is shown in the placeholder instead
+  const framedMemories = () => memoriesRef.current.filter(m => m.id !== defaultMemoryIdRef.current);
+
+  // Photos in browsing order: the placeholder first, then memories in library order
+  const photoOrder = (): Particle[] => {
+    const order = defaultPhotoRef.current ? [defaultPhotoRef.current] : [];
+    framedMemories().forEach(({ id }) => {
+      const particle = memoryParticlesRef.current.get(id);
+      if (particle) order.push(particle);
+    });
+    return order;
+  };
+
+  // The controller knows photos by id: the placeholder's, or their memory's
+  const photoIdOf = (particle: Particle): string => particle.mesh.userData.photoId;
+
+  // Frame of the photo in FOCUS; the previously focused frame flies back to its slot on its own
+  const focusedFrame = (): THREE.Object3D | null => {
+    const id = controller.focused;
+    if (!id) return null;
+    const particle = id === PLACEHOLDER_PHOTO_ID ? defaultPhotoRef.current : memoryParticlesRef.current.get(id);
+    return particle?.mesh ?? null;
+  };
   
+  // Themes are applied in place, without rebuilding the scene
   useEffect(() => {
-    if (newUploads && newUploads.length > 0) {
-      handleUploads(newUploads);
-    }
-  }, [newUploads]);
+    themeRef.current = theme;
+    applyThemeRef.current?.(theme);
+  }, [theme]);
 
-  const handleUploads = (files: FileList) => {
-    if (!photoGroupRef.current || !mainGroupRef.current) return;
+  // Settings resize the ornament field in place; photos and the camera are untouched
+  useEffect(() => {
+    const previous = settingsRef.current;
+    settingsRef.current = settings;
+    applySettingsRef.current?.(settings, previous);
+  }, [settings]);
 
-    Array.from(files).forEach((file) => {
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        if (ev.target?.result) {
-          new THREE.TextureLoader().load(ev.target.result as string, (tex) => {
-            tex.colorSpace = THREE.SRGBColorSpace;
-            addPhotoToScene(tex);
-          });
-        }
-      };
-      reader.readAsDataURL(file);
+  // Selecting a formation assembles the particles into it
+  useEffect(() => {
+    formationRef.current = formation;
+    applyFormation();
+    controller.setMode('TREE');
+  }, [formation]);
+
+  // Gives every non-dust particle (ornaments and photos) a slot in the active formation.
+  // Photos hung on the tree leave the slots to the ornaments and share out the cone instead.
+  const applyFormation = () => {
+    const active = getFormation(formationRef.current);
+    const hung = photosHung();
+    const fieldCount = fieldRef.current?.shapedCount ?? 0;
+    const shaped = particlesRef.current.filter(p => !p.isDust);
+    const total = fieldCount + (hung ? 0 : shaped.length);
+    const config = settingsRef.current.particles;
+    fieldRef.current?.assignFormation(active, 0, total, config);
+    shaped.forEach((p, i) => {
+      if (hung) p.assignHanging(i, shaped.length, config);
+      else p.assignFormation(active, fieldCount + i, total, config);
     });
   };
 
-  const addPhotoToScene = (texture: THREE.Texture) => {
+  const photosHung = () => settingsRef.current.photoPlacement === 'hung' && formationRef.current === 'tree';
+
+  useEffect(() => {
+    memoriesRef.current = memories;
+    defaultMemoryIdRef.current = defaultMemoryId;
+    syncMemories();
+  }, [memories, defaultMemoryId]);
+
+  // Adds photos for new library entries, removes those no longer in it (releasing their
+  // textures and geometry) and re-slots the rest in library order
+  const syncMemories = () => {
     if (!photoGroupRef.current || !mainGroupRef.current) return;
+    const loaded = memoryParticlesRef.current;
+    const framed = framedMemories();
+    const wanted = new Set(framed.map(m => m.id));
+    const defaultMemory = memoriesRef.current.find(m => m.id === defaultMemoryIdRef.current);
+    applyDefaultPhotoRef.current?.(defaultMemory ?? null);
+
+    loaded.forEach((particle, id) => {
+      if (wanted.has(id)) return;
+      if (particle) removePhotoFromScene(particle);
+      loaded.delete(id);
+    });
 
-    const frameGeo = new THREE.BoxGeometry(1.4, 1.4, 0.05);
-    const frameMat = new THREE.MeshStandardMaterial({
-      color: CONFIG.colors.champagneGold,
-      metalness: 1.0,
-      roughness: 0.15,
-      envMapIntensity: 2.0
+    const photoGroup = photoGroupRef.current;
+    framed.forEach((memory) => {
+      const { id } = memory;
+      if (loaded.has(id)) return;
+      loaded.set(id, null);
+      loadMemoryTexture(memory).then((tex) => {
+        // Skip if the memory was removed or the scene rebuilt while loading
+        if (!loaded.has(id) || photoGroupRef.current !== photoGroup) {
+          tex.dispose();
+          return;
+        }
+        loaded.set(id, addPhotoToScene(tex, id));
+        restylePhotos();
+        arrangePhotos();
+      }).catch(err => console.error("Error loading memory:", err));
     });
-    const frame = new THREE.Mesh(frameGeo, frameMat);
+    restylePhotos();
+    arrangePhotos();
+  };
 
-    const photoGeo = new THREE.PlaneGeometry(1.2, 1.2);
-    const photoMat = new THREE.MeshBasicMaterial({ map: texture, side: THREE.DoubleSide });
-    const photo = new THREE.Mesh(photoGeo, photoMat);
-    photo.position.z = 0.04;
+  // Frames every photo in its current look; frames whose look and photo are unchanged stay
+  const restylePhotos = () => {
+    const find = (id: string | null) => memoriesRef.current.find(m => m.id === id);
+    if (defaultPhotoRef.current) dressPhoto(defaultPhotoRef.current, lookFor(find(defaultMemoryIdRef.current)));
+    memoryParticlesRef.current.forEach((particle, id) => {
+      if (particle) dressPhoto(particle, lookFor(find(id)));
+    });
+  };
 
-    const group = new THREE.Group();
-    group.add(frame);
-    group.add(photo);
+  // (Re)builds a photo's frame and hanger around its material. The photo's texture is part of
+  // the key since each texture carries its own crop.
+  const dressPhoto = (particle: Particle, look: FrameLook, photoMaterial = particle.photoMaterial) => {
+    const shared = photoFrameRef.current;
+    if (!shared || !photoMaterial) return;
+    const group = particle.mesh;
+    const key = `${photoMaterial.map?.uuid}|${lookKey(look, textureAspect(photoMaterial.map))}`;
+    if (group.userData.lookKey === key) return;
+    group.userData.lookKey = key;
+
+    releaseFrame(group);
+    group.clear();
+    const { object, top } = shared.frames.build(photoMaterial, look);
+    const hanger = createHanger(shared.hanger, top);
+    group.add(...object.children, hanger);
+    particle.setFrame(photoMaterial, hanger, top);
+  };
+
+  // Formation slots and browsing follow the library order, so reordering it moves the frames.
+  // The controller lets go of removed photos (scattering the scene if one was in FOCUS).
+  const arrangePhotos = () => {
+    particlesRef.current = photoOrder();
+    controller.setPhotos(particlesRef.current.map(photoIdOf));
+    applyFormation();
+  };
+
+  const removePhotoFromScene = (particle: Particle) => {
+    particle.mesh.removeFromParent();
+    // Frames share their geometry and materials; only the photo's own material and texture go,
+    // with anything the frame owns
+    releaseFrame(particle.mesh);
+    particle.photoMaterial?.map?.dispose();
+    particle.photoMaterial?.dispose();
+  };
+
+  const addPhotoToScene = (texture: THREE.Texture, id: string): Particle | null => {
+    const shared = photoFrameRef.current;
+    if (!photoGroupRef.current || !mainGroupRef.current || !shared) return null;
 
+    // The frame is built around the photo by restylePhotos
+    const photoMat = new THREE.MeshBasicMaterial({ map: texture, side: THREE.DoubleSide });
+    const group = new THREE.Group();
+    group.userData.photoId = id;
     const s = 0.8;
     group.scale.set(s, s, s);
 
@@ -213,8 +557,9 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
     
     // Create particle logic for it
     const p = new Particle(group, 'PHOTO', false);
+    p.photoMaterial = photoMat;
     group.position.copy(p.posScatter);
-    particlesRef.current.push(p);
+    return p;
   };
 
   // --- MEDIAPIPE LOGIC ---
@@ -223,39 +568,81 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
     let video: HTMLVideoElement | null = null;
     let animationFrameId = -1;
     let lastVideoTime = -1;
+    const recognizer = new GestureRecognizer();
+    const swipes = new SwipeDetector();
+    const twoHands = new TwoHandTracker();
+
+    let disposed = false;
 
+    const reportStatus = (state: TrackingState, message?: string) => {
+      if (!disposed) onTrackingStatusChangeRef.current?.({ state, message });
+    };
+
+    const createLandmarker = async (vision: WasmFileset, delegate: 'GPU' | 'CPU') =>
+      HandLandmarker.createFromOptions(vision, {
+        baseOptions: {
+          modelAssetPath: ASSET_URLS.handModel,
+          delegate
+        },
+        runningMode: "VIDEO",
+        numHands: 2
+      });
+
+    // Any failure leaves mouse/touch/keyboard control in charge and reports why
     const setupMediaPipe = async () => {
+      reportStatus('loading');
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-        );
-        handLandmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
-        
-        video = document.getElementById('webcam-video') as HTMLVideoElement;
-        
-        if (navigator.mediaDevices?.getUserMedia) {
-          const stream = await navigator.mediaDevices.getUserMedia({ 
-            video: {
-              width: 320,
-              height: 240,
-              frameRate: { ideal: 30 }
-            } 
-          });
-          if (video) {
-            video.srcObject = stream;
-            video.addEventListener("loadeddata", predictWebcam);
-          }
+        const vision = await FilesetResolver.forVisionTasks(ASSET_URLS.mediapipeWasm);
+        try {
+          handLandmarker = await createLandmarker(vision, 'GPU');
+        } catch (gpuErr) {
+          console.warn("GPU hand tracking unavailable, falling back to CPU:", gpuErr);
+          handLandmarker = await createLandmarker(vision, 'CPU');
         }
       } catch (err) {
         console.error("Error initializing MediaPipe:", err);
+        reportStatus('model-unavailable', 'Hand tracking could not be loaded');
+        return;
+      }
+      if (disposed) {
+        handLandmarker.close();
+        return;
+      }
+
+      video = document.getElementById('webcam-video') as HTMLVideoElement;
+      if (!video || !navigator.mediaDevices?.getUserMedia) {
+        reportStatus('camera-unavailable', 'This browser cannot access a camera');
+        return;
+      }
+
+      reportStatus('requesting-camera');
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ 
+          video: {
+            width: 320,
+            height: 240,
+            frameRate: { ideal: 30 }
+          } 
+        });
+      } catch (err) {
+        console.error("Error opening camera:", err);
+        const name = err instanceof DOMException ? err.name : '';
+        if (name === 'NotAllowedError' || name === 'SecurityError') {
+          reportStatus('camera-denied', 'Camera access was denied');
+        } else {
+          reportStatus('camera-unavailable', 'No usable camera was found');
+        }
+        return;
       }
+      if (disposed) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      video.srcObject = stream;
+      video.addEventListener("loadeddata", predictWebcam);
+      reportStatus('active');
     };
 
     const predictWebcam = () => {
@@ -269,7 +656,23 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
     };
 
     const processGestures = (result: any) => {
-      if (result.landmarks && result.landmarks.length > 0) {
+      const now = performance.now();
+      const hands = result.landmarks ?? [];
+      if (hands.length !== handRef.current.count) {
+        handRef.current.count = hands.length;
+        onHandCountChangeRef.current?.(hands.length);
+      }
+      handFrameListenersRef.current.forEach(listener => listener(hands));
+
+      // Both hands: spread to zoom, twist to rotate. One-hand gestures are suspended meanwhile.
+      const delta = twoHands.update(hands);
+      if (delta) {
+        handRef.current.detected = true;
+        inputRef.current?.handTwoHand(delta);
+        return;
+      }
+
+      if (hands.length > 0) {
         handRef.current.detected = true;
         const lm = result.landmarks[0];
         
@@ -279,76 +682,31 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
         handRef.current.x = (1 - lm[9].x - 0.5) * 2; 
         handRef.current.y = (1 - lm[9].y - 0.5) * 2;
 
-        const wrist = lm[0];
-        const thumbTip = lm[4];
-        const indexTip = lm[8];
-        const middleTip = lm[12];
-        const ringTip = lm[16];
-        const pinkyTip = lm[20];
-
-        // 1. PINCH DISTANCE (Thumb to Index)
-        const pinchDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-        
-        // 2. OPENNESS (Average distance from wrist to finger tips)
-        const tips = [indexTip, middleTip, ringTip, pinkyTip];
-        let avgDistToWrist = 0;
-        tips.forEach(t => {
-            avgDistToWrist += Math.hypot(t.x - wrist.x, t.y - wrist.y);
-        });
-        avgDistToWrist /= 4;
-
-        // Thresholds (tuned for typical webcam distance)
-        // Fist: Tips are close to wrist. Typically < 0.25
-        // Open: Tips are far. Typically > 0.4
-        // Pinch: Thumb and Index touching. < 0.08
-        
-        const FIST_THRESHOLD = 0.25;
-        const OPEN_THRESHOLD = 0.45;
-        const PINCH_THRESHOLD = 0.08;
-
-        // --- STATE MACHINE ---
-        // Priority: Fist (Reset) > Grab (Focus) > Open (Scatter)
-        
-        if (avgDistToWrist < FIST_THRESHOLD) {
-           // FIST DETECTED -> TREE (Closed)
-           if (modeRef.current !== 'TREE') {
-             modeRef.current = 'TREE';
-             focusTargetRef.current = null;
-           }
-        } else if (pinchDist < PINCH_THRESHOLD) {
-          // GRAB/PINCH DETECTED -> FOCUS
-          if (modeRef.current !== 'FOCUS') {
-            modeRef.current = 'FOCUS';
-            // Select a random photo to focus on
-            const photos = particlesRef.current.filter(p => p.type === 'PHOTO');
-            if (photos.length > 0) {
-              const randomPhoto = photos[Math.floor(Math.random() * photos.length)];
-              focusTargetRef.current = randomPhoto.mesh;
-            }
-          }
-        } else if (avgDistToWrist > OPEN_THRESHOLD) {
-           // OPEN HAND -> SCATTER
-           // Transition to scatter if we are in Tree mode. 
-           // If in Focus mode, we only go back to Scatter if explicitly opening hand (release pinch)
-           if (modeRef.current !== 'SCATTER' && modeRef.current !== 'FOCUS') {
-             modeRef.current = 'SCATTER';
-             focusTargetRef.current = null;
-           }
-           // Also release focus if open hand is detected while in focus mode
-           if (modeRef.current === 'FOCUS') {
-              modeRef.current = 'SCATTER';
-              focusTargetRef.current = null;
-           }
+        // Horizontal swipes browse photos while focused; hold other gestures back mid-swipe
+        if (controller.mode === 'FOCUS') {
+          const swipe = swipes.update(1 - lm[9].x, lm[9].y, now);
+          if (swipe) inputRef.current?.handSwipe(swipe);
+          if (swipes.isBusy(now)) return;
+        } else {
+          swipes.reset();
         }
 
+        const event = recognizer.update(lm, now);
+        if (event) {
+          onGestureChangeRef.current?.(event.gesture);
+          inputRef.current?.handGesture(event);
+        }
       } else {
         handRef.current.detected = false;
+        if (recognizer.update(null, now)) onGestureChangeRef.current?.('NONE');
       }
     };
 
     setupMediaPipe();
 
     return () => {
+      disposed = true;
+      if (video) video.removeEventListener("loadeddata", predictWebcam);
       if (video && video.srcObject) {
         const stream = video.srcObject as MediaStream;
         stream.getTracks().forEach(track => track.stop());
@@ -363,8 +721,9 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
 
     // --- INIT THREE JS ---
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(CONFIG.colors.bg);
-    scene.fog = new THREE.FogExp2(CONFIG.colors.bg, 0.015);
+    const initialTheme = themeRef.current;
+    scene.background = new THREE.Color(initialTheme.colors.bg);
+    scene.fog = new THREE.FogExp2(initialTheme.colors.bg, initialTheme.fogDensity);
 
     const camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000);
     camera.position.set(0, 2, CONFIG.camera.z);
@@ -376,18 +735,24 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
       depth: true
     });
     renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+
+    // Quality starts from the pinned tier, or the governor's initial one
+    const governor = new QualityGovernor();
+    const preference = settingsRef.current.quality;
+    let quality = governor.pin(preference === 'auto' ? null : preference);
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, quality.pixelRatio));
     
     // High-end Tone Mapping
     renderer.toneMapping = THREE.ACESFilmicToneMapping;
     renderer.toneMappingExposure = 1.0;
 
     containerRef.current.appendChild(renderer.domElement);
+    canvasRef.current = renderer.domElement;
 
     const pmremGenerator = new THREE.PMREMGenerator(renderer);
     scene.environment = pmremGenerator.fromScene(new RoomEnvironment(), 0.04).texture;
 
-    const ambient = new THREE.AmbientLight(0xffffff, 0.4);
+    const ambient = new THREE.AmbientLight(initialTheme.lights.ambient, initialTheme.lights.ambientIntensity);
     scene.add(ambient);
 
     const mainGroup = new THREE.Group();
@@ -395,18 +760,19 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
     scene.add(mainGroup);
 
     // Dynamic Lights
-    const innerLight = new THREE.PointLight(0xffaa00, 3, 25);
+    const innerLight = new THREE.PointLight(initialTheme.lights.inner, initialTheme.lights.innerIntensity, 25);
     innerLight.position.set(0, 5, 0);
     mainGroup.add(innerLight);
 
-    const spotGold = new THREE.SpotLight(0xffcc66, 1500);
+    const spotGold = new THREE.SpotLight(initialTheme.lights.spot, 1500);
     spotGold.position.set(30, 40, 40);
     spotGold.angle = 0.5;
     spotGold.penumbra = 0.5;
-    spotGold.castShadow = true;
+    spotGold.castShadow = quality.shadows;
+    renderer.shadowMap.enabled = quality.shadows;
     scene.add(spotGold);
 
-    const fill = new THREE.DirectionalLight(0xffeebb, 0.5);
+    const fill = new THREE.DirectionalLight(initialTheme.lights.fill, 0.5);
     fill.position.set(-20, 0, 50);
     scene.add(fill);
 
@@ -442,7 +808,7 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
     const caneTexture = createCanvasTexture();
 
     // Geometries
-    const sphereGeo = new THREE.SphereGeometry(0.5, 32, 32);
+    let sphereGeo = new THREE.SphereGeometry(0.5, quality.sphereSegments, quality.sphereSegments);
     const boxGeo = new THREE.BoxGeometry(0.55, 0.55, 0.55);
     const curve = new THREE.CatmullRomCurve3([
       new THREE.Vector3(0, -0.5, 0),
@@ -454,102 +820,179 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
 
     // Materials
     const goldMat = new THREE.MeshStandardMaterial({
-      color: CONFIG.colors.champagneGold,
+      color: initialTheme.colors.champagneGold,
       metalness: 1.0,
       roughness: 0.15,
       envMapIntensity: 2.5,
-      emissive: 0x442200,
+      emissive: initialTheme.colors.goldEmissive,
       emissiveIntensity: 0.2,
     });
 
     const greenMat = new THREE.MeshStandardMaterial({
-      color: CONFIG.colors.deepGreen,
+      color: initialTheme.colors.deepGreen,
       metalness: 0.0,
       roughness: 0.9,
     });
 
     const redMat = new THREE.MeshPhysicalMaterial({
-      color: CONFIG.colors.accentRed,
+      color: initialTheme.colors.accentRed,
       metalness: 0.1,
       roughness: 0.1,
       clearcoat: 1.0,
       clearcoatRoughness: 0.1,
-      emissive: 0x330000,
+      emissive: initialTheme.colors.redEmissive,
       emissiveIntensity: 0.1
     });
 
     const candyMat = new THREE.MeshStandardMaterial({ map: caneTexture, roughness: 0.4 });
 
-    const generatedParticles: Particle[] = [];
+    // Ornaments and dust are rendered as one InstancedMesh per type
+    const ornamentTypes: { type: ParticleBatch['type']; geometry: THREE.BufferGeometry; material: THREE.Material; mix: keyof OrnamentMix }[] = [
+      { type: 'BOX', geometry: boxGeo, material: greenMat, mix: 'box' },
+      { type: 'GOLD_BOX', geometry: boxGeo, material: goldMat, mix: 'goldBox' },
+      { type: 'GOLD_SPHERE', geometry: sphereGeo, material: goldMat, mix: 'goldSphere' },
+      { type: 'RED', geometry: sphereGeo, material: redMat, mix: 'red' },
+      { type: 'CANE', geometry: candyGeo, material: candyMat, mix: 'cane' },
+    ];
 
-    for (let i = 0; i < CONFIG.particles.count; i++) {
-      const rand = Math.random();
-      let mesh, type;
-      if (rand < 0.4) {
-        mesh = new THREE.Mesh(boxGeo, greenMat);
-        type = 'BOX';
-      } else if (rand < 0.7) {
-        mesh = new THREE.Mesh(boxGeo, goldMat);
-        type = 'GOLD_BOX';
-      } else if (rand < 0.92) {
-        mesh = new THREE.Mesh(sphereGeo, goldMat);
-        type = 'GOLD_SPHERE';
-      } else if (rand < 0.97) {
-        mesh = new THREE.Mesh(sphereGeo, redMat);
-        type = 'RED';
-      } else {
-        mesh = new THREE.Mesh(candyGeo, candyMat);
-        type = 'CANE';
+    const dustGeo = new THREE.TetrahedronGeometry(0.08, 0);
+    const dustMat = new THREE.MeshBasicMaterial({ color: initialTheme.colors.dust, transparent: true, opacity: 0.6 });
+
+    // Draws each ornament's type from the mix weights; geometries and materials are shared across rebuilds
+    const createField = ({ particles, ornamentMix }: SceneSettings) => {
+      const weights = ornamentTypes.map(o => ornamentMix[o.mix]);
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+      const typeCounts = ornamentTypes.map(() => 0);
+      for (let i = 0; i < particles.count; i++) {
+        let rand = Math.random() * totalWeight;
+        let t = 0;
+        while (t < ornamentTypes.length - 1 && rand >= weights[t]) {
+          rand -= weights[t];
+          t++;
+        }
+        typeCounts[t]++;
       }
 
-      const s = 0.4 + Math.random() * 0.5;
-      mesh.scale.set(s, s, s);
-      mesh.rotation.set(Math.random() * 6, Math.random() * 6, Math.random() * 6);
-      mainGroup.add(mesh);
-      generatedParticles.push(new Particle(mesh, type, false));
-    }
+      const batches: ParticleBatch[] = ornamentTypes.map((o, t) => ({
+        type: o.type,
+        geometry: o.geometry,
+        material: o.material,
+        count: typeCounts[t],
+        isDust: false,
+        baseScale: () => 0.4 + Math.random() * 0.5,
+        randomRotation: true,
+      }));
+      batches.push({
+        type: 'DUST',
+        geometry: dustGeo,
+        material: dustMat,
+        count: particles.dustCount,
+        isDust: true,
+        baseScale: () => 0.5 + Math.random(),
+        randomRotation: false,
+      });
+
+      const created = new ParticleField(batches, particles);
+      created.setDustFraction(quality.dustFraction);
+      created.setTextTargets(textPointsRef.current);
+      created.object.traverse((obj: THREE.Object3D) => {
+        obj.castShadow = quality.shadows;
+        obj.receiveShadow = quality.shadows;
+      });
+      mainGroup.add(created.object);
+      fieldRef.current = created;
+      return created;
+    };
 
-    const dustGeo = new THREE.TetrahedronGeometry(0.08, 0);
-    const dustMat = new THREE.MeshBasicMaterial({ color: 0xffeebb, transparent: true, opacity: 0.6 });
-    for (let i = 0; i < CONFIG.particles.dustCount; i++) {
-      const mesh = new THREE.Mesh(dustGeo, dustMat);
-      mesh.scale.setScalar(0.5 + Math.random());
-      mainGroup.add(mesh);
-      generatedParticles.push(new Particle(mesh, 'DUST', true));
-    }
+    let field = createField(settingsRef.current);
+
+    const generatedParticles: Particle[] = [];
 
     // Default Photo
     const defaultCanvas = document.createElement('canvas');
     defaultCanvas.width = 512;
     defaultCanvas.height = 512;
-    const ctx = defaultCanvas.getContext('2d');
-    if (ctx) {
+    const defaultTex = new THREE.CanvasTexture(defaultCanvas);
+    defaultTex.colorSpace = THREE.SRGBColorSpace;
+
+    // The placeholder photo carries the greeting, shrunk to fit inside the frame
+    const drawDefaultPhoto = (text: string) => {
+      const ctx = defaultCanvas.getContext('2d');
+      if (!ctx) return;
       ctx.fillStyle = '#050505';
       ctx.fillRect(0, 0, 512, 512);
       ctx.strokeStyle = '#eebb66';
       ctx.lineWidth = 15;
       ctx.strokeRect(20, 20, 472, 472);
-      ctx.font = '500 60px Times New Roman';
       ctx.fillStyle = '#eebb66';
       ctx.textAlign = 'center';
-      ctx.fillText('JOYEUX', 256, 230);
-      ctx.fillText('NOEL', 256, 300);
-    }
-    const defaultTex = new THREE.CanvasTexture(defaultCanvas);
-    defaultTex.colorSpace = THREE.SRGBColorSpace;
+      ctx.textBaseline = 'middle';
+
+      const lines = wrapText(text.toUpperCase(), 10).slice(0, 4);
+      let size = 60;
+      ctx.font = `500 ${size}px Times New Roman`;
+      const widest = Math.max(...lines.map(l => ctx.measureText(l).width));
+      if (widest > 400) size = Math.floor(size * 400 / widest);
+      ctx.font = `500 ${size}px Times New Roman`;
+      lines.forEach((line, i) => ctx.fillText(line, 256, 256 + (i - (lines.length - 1) / 2) * size * 1.15));
+      defaultTex.needsUpdate = true;
+    };
+
+    let disposed = false;
+    const applyGreeting = (greeting: string) => {
+      const text = greeting.trim() || DEFAULT_GREETING;
+      drawDefaultPhoto(text);
+      textPointsRef.current = sampleTextPoints(text);
+      field.setTextTargets(textPointsRef.current);
+    };
+    applyGreeting(settingsRef.current.greeting);
+    // The display font may still be loading; sample the letters again once it has arrived
+    document.fonts?.ready.then(() => {
+      if (!disposed) applyGreeting(settingsRef.current.greeting);
+    });
     
-    const frameGeoFrame = new THREE.BoxGeometry(1.4, 1.4, 0.05);
-    const frameMesh = new THREE.Mesh(frameGeoFrame, goldMat);
-    const photoGeoP = new THREE.PlaneGeometry(1.2, 1.2);
+    // Photo frames share their geometry and materials per style, and the hook and ribbon
+    const frames = new PhotoFrames(initialTheme.colors.champagneGold);
+    const photoFrame = {
+      frames,
+      hanger: createHangerAssets(initialTheme.colors.accentRed, frames.gold),
+    };
+    photoFrameRef.current = photoFrame;
+
     const photoMatP = new THREE.MeshBasicMaterial({ map: defaultTex });
-    const photoMesh = new THREE.Mesh(photoGeoP, photoMatP);
-    photoMesh.position.z = 0.04;
     const photoGrp = new THREE.Group();
-    photoGrp.add(frameMesh);
-    photoGrp.add(photoMesh);
+    photoGrp.userData.photoId = PLACEHOLDER_PHOTO_ID;
     photoGrp.scale.set(0.8, 0.8, 0.8);
     photoGroupRef.current.add(photoGrp);
-    generatedParticles.push(new Particle(photoGrp, 'PHOTO', false));
+    defaultPhotoRef.current = new Particle(photoGrp, 'PHOTO', false);
+    dressPhoto(defaultPhotoRef.current, lookFor(memoriesRef.current.find(m => m.id === defaultMemoryIdRef.current)), photoMatP);
+    generatedParticles.push(defaultPhotoRef.current);
+
+    let defaultPhotoUrl: string | null = null;
+    let defaultPhotoTex: THREE.Texture | null = null;
+    applyDefaultPhotoRef.current = (memory: UploadedImage | null) => {
+      const url = memory?.url ?? null;
+      if (url === defaultPhotoUrl) return;
+      defaultPhotoUrl = url;
+      if (!memory) {
+        photoMatP.map = defaultTex;
+        defaultPhotoTex?.dispose();
+        defaultPhotoTex = null;
+        restylePhotos();
+        return;
+      }
+      loadMemoryTexture(memory).then((tex) => {
+        // Skip if another default was chosen or the scene was torn down while loading
+        if (disposed || url !== defaultPhotoUrl) {
+          tex.dispose();
+          return;
+        }
+        defaultPhotoTex?.dispose();
+        defaultPhotoTex = tex;
+        photoMatP.map = tex;
+        restylePhotos();
+      }).catch(err => console.error("Error loading default photo:", err));
+    };
 
     // --- STAR CONSTRUCTION ---
     const createStarShape = (outerRadius: number, innerRadius: number, points: number) => {
@@ -577,47 +1020,269 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
     starGeo.center(); // Center it so rotation is around the middle
 
     const starMat = new THREE.MeshStandardMaterial({
-      color: 0xffdd88,
-      emissive: 0xffaa00,
+      color: initialTheme.colors.star,
+      emissive: initialTheme.colors.starEmissive,
       emissiveIntensity: 2.0, 
       metalness: 1.0,
       roughness: 0,
     });
     const star = new THREE.Mesh(starGeo, starMat);
-    star.position.set(0, CONFIG.particles.treeHeight / 2 + 1.2, 0);
+    star.position.set(0, settingsRef.current.particles.treeHeight / 2 + 1.2, 0);
     // Slight rotation to show off the 3D depth initially
     star.rotation.y = Math.PI / 4; 
     mainGroup.add(star);
 
     particlesRef.current = generatedParticles;
+    applyFormation();
+
+    // Restore memories from the library into the fresh scene
+    memoryParticlesRef.current.clear();
+    syncMemories();
+
+    // --- LIGHT STRINGS ---
+    const lightStrings = new LightStrings();
+    mainGroup.add(lightStrings.object);
+    const applyGarland = ({ enabled, pattern }: GarlandSettings) => {
+      lightStrings.object.visible = enabled;
+      lightStrings.setPattern(pattern);
+    };
+    const applyLightColors = ({ colors, lights }: Theme) => {
+      lightStrings.setColors([colors.star, colors.accentRed, colors.champagneGold, lights.inner], colors.champagneGold);
+    };
+    applyGarland(settingsRef.current.garland);
+    applyLightColors(initialTheme);
+
+    // --- SNOW ---
+    // Falling snow lives in world space, settled snow turns with the tree
+    const snowfall = new Snowfall();
+    scene.add(snowfall.object);
+    mainGroup.add(snowfall.settledObject);
+    const wind = new Wind();
+    const toTreeSpace = new THREE.Matrix4();
+    const treeTurn = new THREE.Quaternion();
+    const localWind = new THREE.Vector3();
+
+    const applySnow = ({ enabled, density, flakeSize, fallSpeed }: SnowSettings) => {
+      snowfall.object.visible = enabled;
+      snowfall.settledObject.visible = enabled;
+      // Lower tiers thin the snow like the dust
+      snowfall.setDensity(density * quality.dustFraction);
+      snowfall.setFlakeSize(flakeSize);
+      snowfall.setFallSpeed(fallSpeed);
+      if (!enabled) snowfall.clearSettled();
+    };
+    applySnow(settingsRef.current.snow);
 
     // Post Processing
     const renderScene = new RenderPass(scene, camera);
     const bloomPass = new UnrealBloomPass(new THREE.Vector2(window.innerWidth, window.innerHeight), 1.5, 0.4, 0.85);
     
-    bloomPass.threshold = 0.5; 
-    bloomPass.strength = 0.6;  
-    bloomPass.radius = 0.8;    
+    // Settings override the theme's bloom field by field
+    const applyBloom = () => {
+      const bloom = { ...themeRef.current.bloom, ...settingsRef.current.bloom };
+      bloomPass.threshold = bloom.threshold;
+      bloomPass.strength = bloom.strength;
+      bloomPass.radius = bloom.radius;
+    };
+    applyBloom();
 
     const composer = new EffectComposer(renderer);
     composer.addPass(renderScene);
     composer.addPass(bloomPass);
 
+    // --- QUALITY ---
+    // Bloom can run below canvas resolution; EffectComposer sizes it to the canvas, so re-size after it
+    const sizeBloom = () => {
+      const scale = renderer.getPixelRatio() * quality.bloomResolution;
+      bloomPass.setSize(Math.round(window.innerWidth * scale), Math.round(window.innerHeight * scale));
+    };
+    sizeBloom();
+
+    const applyQuality = (tier: QualityTier) => {
+      const previous = quality;
+      quality = tier;
+
+      const pixelRatio = Math.min(window.devicePixelRatio, tier.pixelRatio);
+      renderer.setPixelRatio(pixelRatio);
+      composer.setPixelRatio(pixelRatio);
+      sizeBloom();
+
+      if (tier.sphereSegments !== previous.sphereSegments) {
+        const detailed = new THREE.SphereGeometry(0.5, tier.sphereSegments, tier.sphereSegments);
+        field.replaceGeometry(sphereGeo, detailed);
+        ornamentTypes.forEach(o => { if (o.geometry === sphereGeo) o.geometry = detailed; });
+        sphereGeo.dispose();
+        sphereGeo = detailed;
+      }
+      field.setDustFraction(tier.dustFraction);
+      applySnow(settingsRef.current.snow);
+
+      if (tier.shadows !== previous.shadows) {
+        renderer.shadowMap.enabled = tier.shadows;
+        spotGold.castShadow = tier.shadows;
+        field.object.traverse((obj: THREE.Object3D) => {
+          obj.castShadow = tier.shadows;
+          obj.receiveShadow = tier.shadows;
+        });
+        // Materials compile shadow support in or out
+        [goldMat, greenMat, redMat, candyMat, starMat].forEach(m => { m.needsUpdate = true; });
+      }
+    };
+
+    // Stills always get bloom, whatever the current tier. The frame is copied out straight
+    // after rendering, so the canvas doesn't need preserveDrawingBuffer.
+    renderStillRef.current = (pixelRatio: number) => {
+      const longestSide = Math.max(window.innerWidth, window.innerHeight);
+      const ratio = Math.min(pixelRatio, renderer.capabilities.maxTextureSize / longestSide);
+      const previousRatio = renderer.getPixelRatio();
+      renderer.setPixelRatio(ratio);
+      composer.setPixelRatio(ratio);
+      sizeBloom();
+      composer.render();
+
+      const still = document.createElement('canvas');
+      still.width = renderer.domElement.width;
+      still.height = renderer.domElement.height;
+      still.getContext('2d')?.drawImage(renderer.domElement, 0, 0);
+
+      renderer.setPixelRatio(previousRatio);
+      composer.setPixelRatio(previousRatio);
+      sizeBloom();
+      return still;
+    };
+
+    let reportedPerformance: PerformanceStats | null = null;
+    const reportPerformance = () => {
+      const stats = { tier: quality.id, fps: Math.round(governor.fps) };
+      if (reportedPerformance?.tier === stats.tier && reportedPerformance.fps === stats.fps) return;
+      reportedPerformance = stats;
+      onPerformanceChangeRef.current?.(stats);
+    };
+
+    // --- THEME ---
+    applyThemeRef.current = (theme: Theme) => {
+      const { colors, lights, fogDensity } = theme;
+      scene.background.setHex(colors.bg);
+      scene.fog.color.setHex(colors.bg);
+      scene.fog.density = fogDensity;
+
+      ambient.color.setHex(lights.ambient);
+      ambient.intensity = lights.ambientIntensity;
+      innerLight.color.setHex(lights.inner);
+      innerLight.intensity = lights.innerIntensity;
+      spotGold.color.setHex(lights.spot);
+      fill.color.setHex(lights.fill);
+
+      goldMat.color.setHex(colors.champagneGold);
+      goldMat.emissive.setHex(colors.goldEmissive);
+      greenMat.color.setHex(colors.deepGreen);
+      redMat.color.setHex(colors.accentRed);
+      redMat.emissive.setHex(colors.redEmissive);
+      dustMat.color.setHex(colors.dust);
+      starMat.color.setHex(colors.star);
+      starMat.emissive.setHex(colors.starEmissive);
+      applyLightColors(theme);
+
+      photoFrame.frames.setGoldColor(colors.champagneGold);
+      photoFrame.hanger.ribbonMaterial.color.setHex(colors.accentRed);
+
+      applyBloom();
+    };
+
+    // --- SETTINGS ---
+    applySettingsRef.current = (next: SceneSettings, previous: SceneSettings) => {
+      const { particles, ornamentMix } = next;
+      const rebuild =
+        particles.count !== previous.particles.count ||
+        particles.dustCount !== previous.particles.dustCount ||
+        (Object.keys(ornamentMix) as (keyof OrnamentMix)[]).some(k => ornamentMix[k] !== previous.ornamentMix[k]);
+      if (rebuild) {
+        field.dispose();
+        field = createField(next);
+      }
+      // Also re-slots photos, and picks up a new tree height or radius
+      applyFormation();
+      applyBloom();
+
+      if (next.greeting !== previous.greeting) applyGreeting(next.greeting);
+      if (next.frameStyle !== previous.frameStyle) restylePhotos();
+      if (next.snow !== previous.snow) applySnow(next.snow);
+      if (next.garland !== previous.garland) applyGarland(next.garland);
+
+      if (next.quality !== previous.quality) {
+        applyQuality(governor.pin(next.quality === 'auto' ? null : next.quality));
+        reportPerformance();
+      }
+    };
+
     const clock = new THREE.Clock();
+    let reportedSlideshow: SlideshowState | null = null;
+
+    let time = 0;
 
     const animate = () => {
-      const dt = clock.getDelta();
-      const time = clock.getElapsedTime();
+      // Pausing freezes motion but keeps rendering so the frame stays on screen
+      const frameDelta = clock.getDelta();
+      const dt = pausedRef.current ? 0 : frameDelta;
+      time += dt;
+
+      // --- SLIDESHOW ---
+      // A hand in view or a pause holds the schedule (and the pan/zoom with it)
+      const slideshow = slideshowRef.current;
+      if (slideshow.state !== 'off') {
+        const now = performance.now();
+        const photos = controller.photos;
+        const dwellMs = settingsRef.current.slideshow.dwellSeconds * 1000;
+        const step = slideshow.update(now, photos.length, dwellMs, handRef.current.count > 0 || pausedRef.current);
+        if (step?.type === 'SHOW') {
+          controller.focus(photos[step.index]);
+          kenBurnsRef.current = { startedAt: now, durationMs: step.durationMs, direction: step.index % 2 === 0 ? 1 : -1 };
+        } else if (step?.type === 'TREE') {
+          controller.setMode('TREE');
+          kenBurnsRef.current = null;
+        }
+        if (slideshow.state === 'held' && kenBurnsRef.current) kenBurnsRef.current.startedAt += frameDelta * 1000;
+      }
+      if (slideshow.state !== reportedSlideshow) {
+        reportedSlideshow = slideshow.state;
+        onSlideshowChangeRef.current?.(reportedSlideshow);
+      }
+
+      // Every input source changes the mode through the controller; read it once per frame
+      const mode = controller.mode;
+      const focused = focusedFrame();
+
+      let kenBurns: KenBurns | null = null;
+      const burns = kenBurnsRef.current;
+      if (burns && mode === 'FOCUS' && settingsRef.current.slideshow.kenBurns) {
+        const p = THREE.MathUtils.clamp((performance.now() - burns.startedAt) / burns.durationMs, 0, 1);
+        kenBurns = { zoom: 1 + 0.2 * p, panX: burns.direction * (p - 0.5) * 1.2, panY: (p - 0.5) * 0.4 };
+      }
 
       // --- ROTATION LOGIC ---
       let targetY = 0;
       let targetX = 0;
 
-      if (handRef.current.detected && (modeRef.current === 'SCATTER' || modeRef.current === 'FOCUS')) {
+      // Drags, keys and two-hand twist turn the tree directly and shift the steering target with it
+      const view = viewRef.current;
+      mainGroup.rotation.y += view.pendingYaw;
+      view.yawOffset += view.pendingYaw;
+      view.pendingYaw = 0;
+
+      if (mode === 'GREETING') {
+        // Turn the text to face the camera (by whole turns), with slight pointer or hand parallax
+        const pointer = handRef.current.detected ? handRef.current : mouseRef.current;
+        const front = Math.round(mainGroup.rotation.y / (Math.PI * 2)) * Math.PI * 2;
+        targetY = front + pointer.x * 0.15;
+        targetX = pointer.y * 0.1;
+        mainGroup.rotation.y += (targetY - mainGroup.rotation.y) * 2.0 * dt;
+        mainGroup.rotation.x += (targetX - mainGroup.rotation.x) * 2.0 * dt;
+
+      } else if (handRef.current.detected && (mode === 'SCATTER' || mode === 'FOCUS')) {
         // Hand Gesture controls rotation in Scatter/Focus
         // Map hand X (-1 to 1) to rotation (-PI to PI) roughly
-        targetY = handRef.current.x * Math.PI * 0.8; 
-        targetX = handRef.current.y * Math.PI * 0.3; 
+        targetY = handRef.current.x * Math.PI * 0.8 + view.yawOffset; 
+        targetX = handRef.current.y * Math.PI * 0.3 + view.pitchOffset; 
         
         // Use a heavier lerp for hand control to smooth out webcam jitter
         targetRotationRef.current.y += (targetY - targetRotationRef.current.y) * 4.0 * dt;
@@ -626,10 +1291,10 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
 
       } else {
         // Fallback to Mouse or Idle Animation
-        targetY = mouseRef.current.x * Math.PI * 0.5; 
-        targetX = mouseRef.current.y * Math.PI * 0.2;
+        targetY = mouseRef.current.x * Math.PI * 0.5 + view.yawOffset; 
+        targetX = mouseRef.current.y * Math.PI * 0.2 + view.pitchOffset;
 
-        if (modeRef.current === 'TREE') {
+        if (mode === 'TREE') {
           // Auto rotate the tree
           mainGroup.rotation.y += 0.2 * dt;
           mainGroup.rotation.x += (targetX - mainGroup.rotation.x) * 2.0 * dt;
@@ -641,18 +1306,76 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
         }
       }
 
+      // Zoom eases the camera along its axis
+      const cameraZ = CONFIG.camera.z / view.zoom;
+      camera.position.z += (cameraZ - camera.position.z) * 3.0 * dt;
+
+      // Music: bass pulses the inner light and the star, treble quickens the dust twinkle,
+      // and beats knock the settled ornaments loose for a moment
+      const levels = sampleAudioRef.current?.(performance.now()) ?? null;
+      const { reactivity, beatPulse } = settingsRef.current.music;
+      const bass = levels ? levels.bass * reactivity : 0;
+      innerLight.intensity = themeRef.current.lights.innerIntensity * (1 + 2.5 * bass);
+      starMat.emissiveIntensity = 2.0 * (1 + 1.5 * bass);
+      if (levels?.beat && beatPulse && !pausedRef.current && (mode === 'TREE' || mode === 'GREETING')) {
+        field.pulse(1.5 * bass);
+      }
+
       // Rotate the star independently slightly for effect
       star.rotation.y += 0.5 * dt;
 
-      particlesRef.current.forEach(p => p.update(dt, modeRef.current, time, focusTargetRef.current, mainGroup.matrixWorld));
+      // Move the star to the active formation's topper, or shrink it away if it has none
+      const topper = mode === 'GREETING' ? undefined : getFormation(formationRef.current).topper?.(settingsRef.current.particles);
+      if (topper) star.position.lerp(topper, 2.0 * dt);
+      const starScale = THREE.MathUtils.lerp(star.scale.x, topper ? 1 : 0, 3.0 * dt);
+      star.scale.setScalar(starScale);
+
+      // Light strings wrap the standing tree and drift as ribbons otherwise
+      const garland = settingsRef.current.garland;
+      if (garland.enabled) {
+        const wrapped = mode === 'TREE' && formationRef.current === 'tree';
+        lightStrings.update(dt, time, wrapped, settingsRef.current.particles, garland.speed);
+      }
 
-      composer.render();
-      requestAnimationFrame(animate);
+      // Snow drifts on the wind and gathers on the tree while it stands; gusts also push
+      // scattered ornaments, which the wind reaches in the tree's turned frame
+      const snow = settingsRef.current.snow;
+      if (snow.enabled) {
+        wind.update(dt, snow.wind);
+        mainGroup.updateMatrixWorld();
+        toTreeSpace.copy(mainGroup.matrixWorld).invert();
+        const { treeHeight, treeRadius } = settingsRef.current.particles;
+        const standing = mode === 'TREE' && formationRef.current === 'tree';
+        snowfall.setSilhouette(standing ? { height: treeHeight, radius: treeRadius } : null);
+        snowfall.update(dt, time, wind.velocity, toTreeSpace);
+        if (mode === 'SCATTER' || mode === 'FOCUS') {
+          localWind.copy(wind.velocity).applyQuaternion(treeTurn.copy(mainGroup.quaternion).invert());
+          field.blow(localWind.x * 0.6 * dt, localWind.z * 0.6 * dt);
+        }
+      }
+
+      field.update(dt, mode, levels ? Math.min(1, 2 * levels.treble * reactivity) : 0);
+      const hung = photosHung();
+      particlesRef.current.forEach(p => p.update(dt, mode, time, focused, mainGroup.matrixWorld, camera.position.z, kenBurns, hung));
+
+      // A video clip in focus plays from the start with sound; the others idle
+      const focusedPhoto = mode === 'FOCUS' ? focused?.children.find(c => c.userData.isPhoto) : undefined;
+      const focusedMap = focusedPhoto instanceof THREE.Mesh ? focusedPhoto.material.map : null;
+      videoMemoriesRef.current.update(performance.now(), focusedMap, pausedRef.current);
+
+      // Frame timing drives the quality tier; without bloom the composer is skipped entirely
+      const tierChange = governor.update(frameDelta * 1000, performance.now());
+      if (tierChange) applyQuality(tierChange);
+      reportPerformance();
+
+      if (quality.bloom) composer.render();
+      else renderer.render(scene, camera);
+      animId = requestAnimationFrame(animate);
     };
 
-    const animId = requestAnimationFrame(animate);
+    let animId = requestAnimationFrame(animate);
     
-    setTimeout(() => {
+    const loadTimer = setTimeout(() => {
         onLoadComplete();
     }, 1500);
 
@@ -661,25 +1384,13 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
       camera.updateProjectionMatrix();
       renderer.setSize(window.innerWidth, window.innerHeight);
       composer.setSize(window.innerWidth, window.innerHeight);
+      sizeBloom();
     };
 
-    const onMouseMove = (e: MouseEvent) => {
-      if (!handRef.current.detected) {
-        mouseRef.current = {
-          x: (e.clientX / window.innerWidth) * 2 - 1,
-          y: -(e.clientY / window.innerHeight) * 2 + 1
-        };
-      }
-    };
-
-    const onClick = (e: MouseEvent) => {
-        // Fallback click interaction
+    // Focuses the photo under a tap/click, or cycles modes if none was hit
+    const selectAt = (x: number, y: number) => {
         const raycaster = new THREE.Raycaster();
-        const mouse = new THREE.Vector2(
-            (e.clientX / window.innerWidth) * 2 - 1,
-            -(e.clientY / window.innerHeight) * 2 + 1
-        );
-        raycaster.setFromCamera(mouse, camera);
+        raycaster.setFromCamera(new THREE.Vector2(x, y), camera);
         const photoParticles = particlesRef.current.filter(p => p.type === 'PHOTO');
         const photoMeshes = photoParticles.map(p => p.mesh);
         const intersects = raycaster.intersectObjects(photoMeshes, true);
@@ -689,36 +1400,105 @@ export const Scene3D: React.FC<Scene3DProps> = ({ onLoadComplete, newUploads })
             while(targetGroup && targetGroup.parent !== photoGroupRef.current) {
                 targetGroup = targetGroup.parent;
             }
-            if (targetGroup) {
-                focusTargetRef.current = targetGroup;
-                modeRef.current = 'FOCUS';
-                return;
-            }
+            if (targetGroup && controller.focus(targetGroup.userData.photoId)) return;
         }
         // Cycle modes on click if no photo hit
-        if (modeRef.current === 'FOCUS') {
-            modeRef.current = 'SCATTER';
-            focusTargetRef.current = null;
-        } else if (modeRef.current === 'TREE') {
-            modeRef.current = 'SCATTER';
-        } else {
-            modeRef.current = 'TREE';
-        }
+        controller.cycle();
     };
 
+    const handleInput = (action: InputAction, source: InputSource) => {
+      const view = viewRef.current;
+      // Taking over by mouse, touch or keyboard ends the slideshow; hands only hold it
+      if (source !== 'hand' && ['SET_MODE', 'SELECT', 'BROWSE', 'RESET_VIEW'].includes(action.type)) stopSlideshow();
+      switch (action.type) {
+        case 'SET_MODE':
+          controller.setMode(action.mode);
+          break;
+        case 'SELECT':
+          selectAt(action.x, action.y);
+          break;
+        case 'BROWSE':
+          controller.browse(action.step);
+          break;
+        case 'ROTATE':
+          view.pendingYaw += action.yaw;
+          view.pitchOffset = THREE.MathUtils.clamp(view.pitchOffset + action.pitch, -0.6, 0.6);
+          break;
+        case 'ZOOM':
+          view.zoom = THREE.MathUtils.clamp(view.zoom * action.factor, 0.55, 2.0);
+          break;
+        case 'RESET_VIEW':
+          view.zoom = 1;
+          view.pitchOffset = 0;
+          view.pendingYaw = -view.yawOffset;
+          controller.setMode('TREE');
+          break;
+        case 'TOGGLE_PAUSE':
+          pausedRef.current = !pausedRef.current;
+          break;
+        case 'CAPTURE':
+          onCaptureRequestRef.current?.(action.kind);
+          break;
+        case 'TOGGLE_SLIDESHOW':
+          setSlideshow(slideshowRef.current.state === 'off');
+          break;
+        case 'TOGGLE_SNOW':
+          onSnowToggleRequestRef.current?.();
+          break;
+        case 'POINTER':
+          if (!handRef.current.detected) mouseRef.current = { x: action.x, y: action.y };
+          break;
+      }
+    };
+
+    const input = new InputController(renderer.domElement, handleInput, () => controller.mode);
+    inputRef.current = input;
+
     window.addEventListener('resize', handleResize);
-    window.addEventListener('mousemove', onMouseMove);
-    window.addEventListener('click', onClick);
 
     return () => {
+      disposed = true;
       cancelAnimationFrame(animId);
+      clearTimeout(loadTimer);
       window.removeEventListener('resize', handleResize);
-      window.removeEventListener('mousemove', onMouseMove);
-      window.removeEventListener('click', onClick);
+      input.dispose();
+      inputRef.current = null;
       if (containerRef.current) {
         containerRef.current.removeChild(renderer.domElement);
       }
+
+      // Free everything the GPU holds, so remounting (e.g. under StrictMode) starts clean.
+      // The walk covers whatever is in the scene; resources that may be detached are listed.
+      disposeObject(scene);
+      field.dispose();
+      fieldRef.current = null;
+      snowfall.dispose();
+      lightStrings.dispose();
+      videoMemoriesRef.current.dispose();
+      [sphereGeo, boxGeo, candyGeo, dustGeo].forEach(g => g.dispose());
+      photoFrame.frames.dispose();
+      [photoFrame.hanger.ribbonGeometry, photoFrame.hanger.hookGeometry].forEach(g => g.dispose());
+      [goldMat, greenMat, redMat, candyMat, dustMat, photoFrame.hanger.ribbonMaterial].forEach(m => m.dispose());
+      caneTexture.dispose();
+      defaultTex.dispose();
+      defaultPhotoTex?.dispose();
+      scene.environment?.dispose();
+      bloomPass.dispose();
+      composer.dispose();
+
+      memoryParticlesRef.current.clear();
+      particlesRef.current = [];
+      defaultPhotoRef.current = null;
+      photoFrameRef.current = null;
+      photoGroupRef.current = null;
+      mainGroupRef.current = null;
+      applyThemeRef.current = null;
+      applySettingsRef.current = null;
+      applyDefaultPhotoRef.current = null;
+      renderStillRef.current = null;
+      canvasRef.current = null;
       renderer.dispose();
+      renderer.forceContextLoss();
       pmremGenerator.dispose();
     };
   }, []); 
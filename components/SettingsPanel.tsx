@@ -0,0 +1,354 @@
+import React, { useRef, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { BloomSettings, OrnamentMix, ParticleConfig, PerformanceStats, QualityPreference, SceneSettings } from '../types';
+import { BLOOM_RANGES, CAPTURE_SCALES, CLIP_LENGTHS, GARLAND_SPEED_RANGE, MIX_RANGE, PARTICLE_RANGES, SLIDESHOW_DWELL_RANGE, SNOW_RANGES, SettingRange } from '../services/settings';
+import { LIGHT_PATTERNS } from '../scene/lightStrings';
+import { PHOTO_PLACEMENTS } from '../scene/photoOrnaments';
+import { FRAME_STYLES } from '../scene/photoFrames';
+import { QUALITY_TIERS, formatPerformance } from '../scene/qualityGovernor';
+
+interface SettingsPanelProps {
+  settings: SceneSettings;
+  /** Bloom of the active theme, shown for any value the settings don't override. */
+  themeBloom: BloomSettings;
+  onChange: (settings: SceneSettings) => void;
+  onReset: () => void;
+  onClose: () => void;
+  performanceStats: PerformanceStats | null;
+}
+
+const PARTICLE_LABELS: Record<keyof ParticleConfig, string> = {
+  count: 'Ornaments',
+  dustCount: 'Dust',
+  treeHeight: 'Tree Height',
+  treeRadius: 'Tree Radius',
+};
+
+const BLOOM_LABELS: Record<keyof BloomSettings, string> = {
+  threshold: 'Threshold',
+  strength: 'Strength',
+  radius: 'Radius',
+};
+
+const MIX_LABELS: Record<keyof OrnamentMix, string> = {
+  box: 'Green Boxes',
+  goldBox: 'Gold Boxes',
+  goldSphere: 'Gold Baubles',
+  red: 'Red Baubles',
+  cane: 'Candy Canes',
+};
+
+const SNOW_LABELS: Record<keyof typeof SNOW_RANGES, string> = {
+  density: 'Density',
+  flakeSize: 'Flake Size',
+  fallSpeed: 'Fall Speed',
+  wind: 'Wind',
+};
+
+const QUALITY_OPTIONS: { id: QualityPreference; label: string }[] = [
+  { id: 'auto', label: 'Auto' },
+  ...QUALITY_TIERS.map(t => ({ id: t.id, label: t.label })),
+];
+
+const chipClass = (active: boolean) =>
+  `px-2 py-0.5 border transition-all duration-300 ${
+    active
+      ? 'bg-[rgb(var(--accent))] border-[rgb(var(--accent))] text-black'
+      : 'border-[rgb(var(--accent)/0.3)] text-[rgb(var(--accent)/0.7)] hover:border-[rgb(var(--accent))] hover:text-[rgb(var(--accent))]'
+  }`;
+
+const decimals = (step: number) => (step < 1 ? String(step).split('.')[1].length : 0);
+
+// Sliders for settings that rebuild the ornament field set `onRelease`: they report the value
+// once the thumb is let go (or a key released) rather than on every step of a drag
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  range: SettingRange;
+  format?: (value: number) => string;
+  onRelease?: boolean;
+  onChange: (value: number) => void;
+}> = ({ label, value, range, format, onRelease = false, onChange }) => {
+  const [draft, setDraft] = useState<number | null>(null);
+  const draftRef = useRef<number | null>(null);
+  const shown = draft ?? value;
+
+  const update = (next: number) => {
+    if (!onRelease) {
+      onChange(next);
+      return;
+    }
+    draftRef.current = next;
+    setDraft(next);
+  };
+  const commit = () => {
+    const next = draftRef.current;
+    draftRef.current = null;
+    setDraft(null);
+    if (next !== null && next !== value) onChange(next);
+  };
+
+  return (
+    <label className="block">
+      <div className="flex justify-between gap-4">
+        <span className="text-[rgb(var(--accent)/0.4)]">{label}</span>
+        <span className="text-[rgb(var(--accent))]">{format ? format(shown) : shown.toFixed(decimals(range.step))}</span>
+      </div>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        value={shown}
+        onChange={e => update(Number(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        className="w-full h-1 mt-1 accent-[rgb(var(--accent))] cursor-pointer"
+      />
+    </label>
+  );
+};
+
+// Ornament and dust counts resize the field; tree height and radius only move it
+const REBUILDING_PARTICLE_KEYS: (keyof ParticleConfig)[] = ['count', 'dustCount'];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  themeBloom,
+  onChange,
+  onReset,
+  onClose,
+  performanceStats,
+}) => {
+  const mixKeys = Object.keys(MIX_LABELS) as (keyof OrnamentMix)[];
+  const mixTotal = mixKeys.reduce((sum, key) => sum + settings.ornamentMix[key], 0);
+
+  const sectionClass = "p-3 space-y-2.5 border-t border-[rgb(var(--accent)/0.2)]";
+  const headingClass = "text-[rgb(var(--accent)/0.7)] tracking-[0.3em]";
+
+  return (
+    <div className="pointer-events-auto absolute top-8 left-8 w-[260px] max-h-[calc(100%-4rem)] overflow-y-auto bg-black/50 backdrop-blur-md border border-[rgb(var(--accent)/0.2)] text-[10px] tracking-widest uppercase">
+      <div className="flex items-center justify-between p-3">
+        <span className="text-[rgb(var(--accent))] tracking-[0.3em]">Settings</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onReset}
+            title="Reset to defaults"
+            className="text-[rgb(var(--accent)/0.5)] hover:text-[rgb(var(--accent))] transition-colors duration-300"
+          >
+            <RotateCcw size={12} />
+          </button>
+          <button
+            onClick={onClose}
+            aria-label="Close settings"
+            className="text-[rgb(var(--accent)/0.5)] hover:text-[rgb(var(--accent))] transition-colors duration-300"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <div className="flex justify-between gap-4">
+          <span className={headingClass}>Quality</span>
+          <span className="text-[rgb(var(--accent))]">{formatPerformance(performanceStats)}</span>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {QUALITY_OPTIONS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onChange({ ...settings, quality: id })}
+              className={chipClass(id === settings.quality)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <div className={headingClass}>Particles</div>
+        {(Object.keys(PARTICLE_RANGES) as (keyof ParticleConfig)[]).map(key => (
+          <Slider
+            key={key}
+            label={PARTICLE_LABELS[key]}
+            value={settings.particles[key]}
+            range={PARTICLE_RANGES[key]}
+            onRelease={REBUILDING_PARTICLE_KEYS.includes(key)}
+            onChange={value => onChange({ ...settings, particles: { ...settings.particles, [key]: value } })}
+          />
+        ))}
+      </div>
+
+      <div className={sectionClass}>
+        <div className={headingClass}>Bloom</div>
+        {(Object.keys(BLOOM_RANGES) as (keyof BloomSettings)[]).map(key => (
+          <Slider
+            key={key}
+            label={BLOOM_LABELS[key]}
+            value={settings.bloom[key] ?? themeBloom[key]}
+            range={BLOOM_RANGES[key]}
+            onChange={value => onChange({ ...settings, bloom: { ...settings.bloom, [key]: value } })}
+          />
+        ))}
+      </div>
+
+      <div className={sectionClass}>
+        <div className={headingClass}>Ornament Mix</div>
+        {mixKeys.map(key => (
+          <Slider
+            key={key}
+            label={MIX_LABELS[key]}
+            value={settings.ornamentMix[key]}
+            range={MIX_RANGE}
+            onRelease
+            format={value => {
+              const total = mixTotal - settings.ornamentMix[key] + value;
+              return `${Math.round(total > 0 ? (value / total) * 100 : 0)}%`;
+            }}
+            onChange={value => onChange({ ...settings, ornamentMix: { ...settings.ornamentMix, [key]: value } })}
+          />
+        ))}
+      </div>
+
+      <div className={sectionClass}>
+        <div className="flex items-center justify-between gap-2">
+          <span className={headingClass}>Lights</span>
+          <button
+            onClick={() => onChange({ ...settings, garland: { ...settings.garland, enabled: !settings.garland.enabled } })}
+            className={chipClass(settings.garland.enabled)}
+          >
+            {settings.garland.enabled ? 'On' : 'Off'}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {LIGHT_PATTERNS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onChange({ ...settings, garland: { ...settings.garland, pattern: id } })}
+              className={chipClass(id === settings.garland.pattern)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <Slider
+          label="Speed"
+          value={settings.garland.speed}
+          range={GARLAND_SPEED_RANGE}
+          onChange={speed => onChange({ ...settings, garland: { ...settings.garland, speed } })}
+        />
+      </div>
+
+      <div className={sectionClass}>
+        <div className="flex items-center justify-between gap-2">
+          <span className={headingClass}>Snow</span>
+          <button
+            onClick={() => onChange({ ...settings, snow: { ...settings.snow, enabled: !settings.snow.enabled } })}
+            className={chipClass(settings.snow.enabled)}
+          >
+            {settings.snow.enabled ? 'On' : 'Off'}
+          </button>
+        </div>
+        {(Object.keys(SNOW_RANGES) as (keyof typeof SNOW_RANGES)[]).map(key => (
+          <Slider
+            key={key}
+            label={SNOW_LABELS[key]}
+            value={settings.snow[key]}
+            range={SNOW_RANGES[key]}
+            onChange={value => onChange({ ...settings, snow: { ...settings.snow, [key]: value } })}
+          />
+        ))}
+      </div>
+
+      <div className={sectionClass}>
+        <div className={headingClass}>Photos</div>
+        <div className="flex flex-wrap gap-1.5">
+          {PHOTO_PLACEMENTS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onChange({ ...settings, photoPlacement: id })}
+              className={chipClass(id === settings.photoPlacement)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className="block text-[rgb(var(--accent)/0.4)]">Frame</span>
+        <div className="flex flex-wrap gap-1.5">
+          {FRAME_STYLES.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onChange({ ...settings, frameStyle: id })}
+              className={chipClass(id === settings.frameStyle)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <div className={headingClass}>Slideshow</div>
+        <Slider
+          label="Per Photo"
+          value={settings.slideshow.dwellSeconds}
+          range={SLIDESHOW_DWELL_RANGE}
+          format={value => `${value}s`}
+          onChange={dwellSeconds => onChange({ ...settings, slideshow: { ...settings.slideshow, dwellSeconds } })}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[rgb(var(--accent)/0.4)]">Pan &amp; Zoom</span>
+          <button
+            onClick={() => onChange({ ...settings, slideshow: { ...settings.slideshow, kenBurns: !settings.slideshow.kenBurns } })}
+            className={chipClass(settings.slideshow.kenBurns)}
+          >
+            {settings.slideshow.kenBurns ? 'On' : 'Off'}
+          </button>
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <div className={headingClass}>Capture</div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[rgb(var(--accent)/0.4)]">Image Size</span>
+          <div className="flex gap-1.5">
+            {CAPTURE_SCALES.map(scale => (
+              <button
+                key={scale}
+                onClick={() => onChange({ ...settings, capture: { ...settings.capture, scale } })}
+                className={chipClass(scale === settings.capture.scale)}
+              >
+                {scale}×
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[rgb(var(--accent)/0.4)]">Title</span>
+          <button
+            onClick={() => onChange({ ...settings, capture: { ...settings.capture, includeTitle: !settings.capture.includeTitle } })}
+            className={chipClass(settings.capture.includeTitle)}
+          >
+            {settings.capture.includeTitle ? 'On' : 'Off'}
+          </button>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[rgb(var(--accent)/0.4)]">Clip</span>
+          <div className="flex gap-1.5">
+            {CLIP_LENGTHS.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => onChange({ ...settings, capture: { ...settings.capture, clipSeconds: seconds } })}
+                className={chipClass(seconds === settings.capture.clipSeconds)}
+              >
+                {seconds}s
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { Video, VideoOff } from 'lucide-react';
+import { AppMode, PerformanceStats, TrackingState, TrackingStatus } from '../types';
+import { formatPerformance } from '../scene/qualityGovernor';
+import { GestureType, Landmark } from '../input/gestureRecognizer';
+
+export type HandFrameListener = (hands: Landmark[][]) => void;
+
+interface TrackingHUDProps {
+  trackingStatus: TrackingStatus;
+  handCount: number;
+  gesture: GestureType;
+  mode: AppMode;
+  /** Registers a listener for every processed webcam frame; returns an unsubscribe function. */
+  subscribeHandFrames: (listener: HandFrameListener) => () => void;
+  performanceStats: PerformanceStats | null;
+  /** Active theme; the skeleton is drawn in its accent. */
+  themeId: string;
+}
+
+const CAMERA_LABELS: Record<TrackingState, string> = {
+  'loading': 'Loading',
+  'requesting-camera': 'Requesting',
+  'active': 'Active',
+  'camera-denied': 'Denied',
+  'camera-unavailable': 'Unavailable',
+  'model-unavailable': 'Model Failed',
+};
+
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 180;
+
+// Mirrored webcam frame with the landmark skeleton of every tracked hand drawn on top in `stroke`
+const drawPreview = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement | null, hands: Landmark[][], stroke: string) => {
+  const w = ctx.canvas.width;
+  const h = ctx.canvas.height;
+  ctx.save();
+  ctx.setTransform(-1, 0, 0, 1, w, 0);
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, w, h);
+  if (video && video.readyState >= 2) ctx.drawImage(video, 0, 0, w, h);
+
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = stroke;
+  ctx.fillStyle = '#ffffff';
+  hands.forEach(hand => {
+    ctx.beginPath();
+    HandLandmarker.HAND_CONNECTIONS.forEach(({ start, end }) => {
+      ctx.moveTo(hand[start].x * w, hand[start].y * h);
+      ctx.lineTo(hand[end].x * w, hand[end].y * h);
+    });
+    ctx.stroke();
+    hand.forEach(p => {
+      ctx.beginPath();
+      ctx.arc(p.x * w, p.y * h, 2.5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  });
+  ctx.restore();
+};
+
+export const TrackingHUD: React.FC<TrackingHUDProps> = ({
+  trackingStatus,
+  handCount,
+  gesture,
+  mode,
+  subscribeHandFrames,
+  performanceStats,
+  themeId,
+}) => {
+  const [showPreview, setShowPreview] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const cameraOk = trackingStatus.state === 'active';
+  const cameraFailed = ['camera-denied', 'camera-unavailable', 'model-unavailable'].includes(trackingStatus.state);
+
+  useEffect(() => {
+    if (!showPreview || !cameraOk) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const video = document.getElementById('webcam-video') as HTMLVideoElement | null;
+    // Read the accent once per theme rather than restyling on every hand frame
+    const stroke = `rgb(${getComputedStyle(ctx.canvas).getPropertyValue('--accent')} / 0.9)`;
+    drawPreview(ctx, video, [], stroke);
+    return subscribeHandFrames(hands => drawPreview(ctx, video, hands, stroke));
+  }, [showPreview, cameraOk, subscribeHandFrames, themeId]);
+
+  const rows: [string, string, string][] = [
+    ['Camera', CAMERA_LABELS[trackingStatus.state], cameraOk ? 'text-emerald-300' : cameraFailed ? 'text-red-400' : 'text-[rgb(var(--accent))]'],
+    ['Hands', handCount > 0 ? `${handCount} Detected` : 'None', handCount > 0 ? 'text-emerald-300' : 'text-[rgb(var(--accent)/0.5)]'],
+    ['Gesture', gesture === 'NONE' ? '—' : gesture.replace('_', ' '), 'text-[rgb(var(--accent))]'],
+    ['Mode', mode, 'text-[rgb(var(--accent))]'],
+    ['Render', formatPerformance(performanceStats), 'text-[rgb(var(--accent))]'],
+  ];
+
+  return (
+    <div className="pointer-events-auto absolute top-8 right-8 w-[240px] bg-black/50 backdrop-blur-md border border-[rgb(var(--accent)/0.2)] text-[10px] tracking-widest uppercase">
+      <div className="p-3 space-y-1.5">
+        {rows.map(([label, value, tone]) => (
+          <div key={label} className="flex justify-between gap-4">
+            <span className="text-[rgb(var(--accent)/0.4)]">{label}</span>
+            <span className={tone}>{value}</span>
+          </div>
+        ))}
+        {cameraFailed && trackingStatus.message && (
+          <div className="text-red-400/70 normal-case tracking-normal pt-1">{trackingStatus.message}</div>
+        )}
+      </div>
+
+      <button
+        onClick={() => setShowPreview(!showPreview)}
+        disabled={!cameraOk}
+        className="w-full flex items-center justify-center gap-2 py-2 border-t border-[rgb(var(--accent)/0.2)] text-[rgb(var(--accent)/0.6)] hover:text-[rgb(var(--accent))] transition-colors duration-300 disabled:opacity-30 disabled:pointer-events-none"
+      >
+        {showPreview ? <VideoOff size={12} /> : <Video size={12} />}
+        <span>{showPreview ? 'Hide Preview' : 'Show Preview'}</span>
+      </button>
+
+      {showPreview && cameraOk && (
+        <canvas
+          ref={canvasRef}
+          width={PREVIEW_WIDTH}
+          height={PREVIEW_HEIGHT}
+          className="block w-full border-t border-[rgb(var(--accent)/0.2)]"
+        />
+      )}
+    </div>
+  );
+};
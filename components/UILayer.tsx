@@ -1,9 +1,79 @@
-import React, { useState } from 'react';
-import { Upload, Eye, EyeOff } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Upload, Eye, EyeOff, Download, ArchiveRestore, Trash2, ChevronLeft, ChevronRight, Activity, Palette, X, SlidersHorizontal, Camera, Video, Link2, Check, Type, Music, Play, Pause, SkipBack, SkipForward, Volume2, AudioWaveform, Snowflake, Images } from 'lucide-react';
+import { listFormations } from '../scene/formations';
+import { AppMode, BloomSettings, MemoryLook, MusicSettings, PerformanceStats, SceneSettings, Theme, TrackingStatus, UploadedImage } from '../types';
+import { GestureType } from '../input/gestureRecognizer';
+import { CaptureKind } from '../input/inputController';
+import { HandFrameListener, TrackingHUD } from './TrackingHUD';
+import { SettingsPanel } from './SettingsPanel';
+import { GalleryPanel } from './GalleryPanel';
+import { MAX_GREETING_LENGTH, MUSIC_RANGES } from '../services/settings';
+import { PlaybackState } from '../services/music';
+import { SlideshowState } from '../scene/slideshow';
+import { SceneController } from '../scene/sceneController';
+import { DEFAULT_GREETING } from '../scene/textFormation';
 
 interface UILayerProps {
   isLoading: boolean;
   onUpload: (files: FileList) => void;
+  memories: UploadedImage[];
+  defaultMemoryId: string | null;
+  galleryOpen: boolean;
+  toggleGallery: () => void;
+  onRemoveMemory: (id: string) => void;
+  onReorderMemories: (ids: string[]) => void;
+  onReplaceMemory: (id: string, file: File) => void;
+  onUpdateMemory: (id: string, look: MemoryLook) => void;
+  onSetDefaultMemory: (id: string | null) => void;
+  onClearMemories: () => void;
+  onExportMemories: () => void;
+  onImportMemories: (file: File) => void;
+  formation: string;
+  onFormationChange: (id: string) => void;
+  handCount: number;
+  /** Mode of the scene, followed through its events. */
+  controller: SceneController;
+  trackingStatus: TrackingStatus;
+  gesture: GestureType;
+  hudVisible: boolean;
+  toggleHud: () => void;
+  subscribeHandFrames: (listener: HandFrameListener) => () => void;
+  themes: Theme[];
+  themeId: string;
+  onThemeChange: (id: string) => void;
+  onImportTheme: (file: File) => void;
+  onRemoveTheme: (id: string) => void;
+  settings: SceneSettings;
+  themeBloom: BloomSettings;
+  settingsOpen: boolean;
+  toggleSettings: () => void;
+  onSettingsChange: (settings: SceneSettings) => void;
+  onResetSettings: () => void;
+  performanceStats: PerformanceStats | null;
+  recording: boolean;
+  clipSeconds: number;
+  onCapture: (kind: CaptureKind) => void;
+  /** Greeting as displayed (the default when none is set). */
+  greeting: string;
+  /** Line under the greeting; null when it stands alone. */
+  subtitle: string | null;
+  /** Greeting as typed; empty when the default is used. */
+  greetingInput: string;
+  onGreetingChange: (text: string) => void;
+  onToggleGreeting: () => void;
+  /** Resolves true once the link is on the clipboard. */
+  onCopyLink: () => Promise<boolean>;
+  slideshow: SlideshowState;
+  onToggleSlideshow: () => void;
+  snowEnabled: boolean;
+  onToggleSnow: () => void;
+  playback: PlaybackState;
+  onLoadMusic: (files: FileList) => void;
+  onToggleMusic: () => void;
+  onSkipTrack: (step: number) => void;
+  onMusicChange: (music: MusicSettings) => void;
+  onPrevPhoto: () => void;
+  onNextPhoto: () => void;
   isHidden: boolean;
   toggleVisibility: () => void;
 }
@@ -11,10 +81,87 @@ interface UILayerProps {
 export const UILayer: React.FC<UILayerProps> = ({ 
   isLoading, 
   onUpload, 
+  memories,
+  defaultMemoryId,
+  galleryOpen,
+  toggleGallery,
+  onRemoveMemory,
+  onReorderMemories,
+  onReplaceMemory,
+  onUpdateMemory,
+  onSetDefaultMemory,
+  onClearMemories,
+  onExportMemories,
+  onImportMemories,
+  formation,
+  onFormationChange,
+  handCount,
+  controller,
+  trackingStatus,
+  gesture,
+  hudVisible,
+  toggleHud,
+  subscribeHandFrames,
+  themes,
+  themeId,
+  onThemeChange,
+  onImportTheme,
+  onRemoveTheme,
+  settings,
+  themeBloom,
+  settingsOpen,
+  toggleSettings,
+  onSettingsChange,
+  onResetSettings,
+  performanceStats,
+  recording,
+  clipSeconds,
+  onCapture,
+  greeting,
+  subtitle,
+  greetingInput,
+  onGreetingChange,
+  onToggleGreeting,
+  onCopyLink,
+  slideshow,
+  onToggleSlideshow,
+  snowEnabled,
+  onToggleSnow,
+  playback,
+  onLoadMusic,
+  onToggleMusic,
+  onSkipTrack,
+  onMusicChange,
+  onPrevPhoto,
+  onNextPhoto,
   isHidden, 
   toggleVisibility 
 }) => {
   const [isHoveringUpload, setIsHoveringUpload] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [mode, setMode] = useState<AppMode>(controller.mode);
+  // Focused photo's place in the browsing order, for the counter between the chevrons
+  const [focusPosition, setFocusPosition] = useState<{ index: number; count: number } | null>(null);
+
+  useEffect(() => {
+    setMode(controller.mode);
+    return controller.on('modeChanged', event => setMode(event.mode));
+  }, [controller]);
+
+  useEffect(() => {
+    const update = () => {
+      const index = controller.focused ? controller.photos.indexOf(controller.focused) : -1;
+      setFocusPosition(index === -1 ? null : { index, count: controller.photos.length });
+    };
+    update();
+    const unsubscribes = [
+      controller.on('focusChanged', update),
+      controller.on('photoAdded', update),
+      controller.on('photoRemoved', update),
+      controller.on('photosReordered', update),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [controller]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -22,11 +169,36 @@ export const UILayer: React.FC<UILayerProps> = ({
     }
   };
 
+  const handleArchiveChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportMemories(file);
+    e.target.value = '';
+  };
+
+  const handleThemeFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportTheme(file);
+    e.target.value = '';
+  };
+
+  const handleMusicFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) onLoadMusic(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleCopyLink = async () => {
+    if (!(await onCopyLink())) return;
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const libraryButtonClass = "flex items-center gap-1.5 text-[rgb(var(--accent)/0.5)] hover:text-[rgb(var(--accent))] uppercase tracking-[0.2em] text-[10px] transition-colors duration-300 disabled:opacity-30 disabled:pointer-events-none cursor-pointer";
+
   if (isLoading) {
     return (
       <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black transition-opacity duration-1000">
-        <div className="w-16 h-16 border border-[#d4af37]/20 border-t-[#d4af37] rounded-full animate-spin mb-8" />
-        <div className="text-[#d4af37] text-sm tracking-[0.3em] uppercase font-light animate-pulse">
+        <div className="w-16 h-16 border border-[rgb(var(--accent)/0.2)] border-t-[rgb(var(--accent))] rounded-full animate-spin mb-8" />
+        <div className="text-[rgb(var(--accent))] text-sm tracking-[0.3em] uppercase font-light animate-pulse">
           Constructing Holiday Magic
         </div>
       </div>
@@ -37,17 +209,60 @@ export const UILayer: React.FC<UILayerProps> = ({
     <div className="absolute inset-0 z-10 pointer-events-none flex flex-col items-center justify-between py-12">
       {/* Header */}
       <div className={`transition-opacity duration-700 ${isHidden ? 'opacity-0' : 'opacity-100'}`}>
-        <h1 className="text-5xl md:text-7xl font-['Cinzel'] text-transparent bg-clip-text bg-gradient-to-b from-white to-[#eebb66] tracking-[0.15em] drop-shadow-[0_0_30px_rgba(252,238,167,0.4)] text-center">
-          Merry Christmas
+        <h1 className="text-5xl md:text-7xl font-['Cinzel'] text-transparent bg-clip-text bg-gradient-to-b from-white to-[rgb(var(--highlight))] tracking-[0.15em] drop-shadow-[0_0_30px_rgb(var(--glow)/0.4)] text-center">
+          {greeting}
         </h1>
-        <p className="text-[#d4af37]/60 text-center text-xs tracking-[0.4em] uppercase mt-4">
-          Luxury Edition
-        </p>
+        {subtitle && (
+          <p className="text-[rgb(var(--accent)/0.6)] text-center text-xs tracking-[0.4em] uppercase mt-4">
+            {subtitle}
+          </p>
+        )}
       </div>
 
       {/* Controls */}
       <div className={`pointer-events-auto flex flex-col items-center gap-4 transition-all duration-500 transform ${isHidden ? 'translate-y-20 opacity-0' : 'translate-y-0 opacity-100'}`}>
         
+        {/* Formation Picker */}
+        <div className="flex flex-wrap justify-center gap-2 max-w-xl">
+          {listFormations().map(f => (
+            <button
+              key={f.id}
+              onClick={() => onFormationChange(f.id)}
+              className={`px-3 py-1 border uppercase tracking-[0.2em] text-[10px] transition-all duration-300 ${
+                f.id === formation
+                  ? 'bg-[rgb(var(--accent))] border-[rgb(var(--accent))] text-black'
+                  : 'bg-black/40 backdrop-blur-md border-[rgb(var(--accent)/0.3)] text-[rgb(var(--accent)/0.7)] hover:border-[rgb(var(--accent))] hover:text-[rgb(var(--accent))]'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Greeting */}
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={greetingInput}
+            maxLength={MAX_GREETING_LENGTH}
+            placeholder={DEFAULT_GREETING}
+            onChange={e => onGreetingChange(e.target.value)}
+            aria-label="Greeting"
+            className="w-56 px-3 py-1 bg-black/40 backdrop-blur-md border border-[rgb(var(--accent)/0.3)] text-[rgb(var(--accent))] placeholder:text-[rgb(var(--accent)/0.4)] text-xs tracking-[0.15em] text-center outline-none focus:border-[rgb(var(--accent))] transition-colors duration-300"
+          />
+          <button
+            onClick={onToggleGreeting}
+            className={`flex items-center gap-1.5 px-3 py-1 border uppercase tracking-[0.2em] text-[10px] transition-all duration-300 ${
+              mode === 'GREETING'
+                ? 'bg-[rgb(var(--accent))] border-[rgb(var(--accent))] text-black'
+                : 'bg-black/40 backdrop-blur-md border-[rgb(var(--accent)/0.3)] text-[rgb(var(--accent)/0.7)] hover:border-[rgb(var(--accent))] hover:text-[rgb(var(--accent))]'
+            }`}
+          >
+            <Type size={12} />
+            <span>Spell</span>
+          </button>
+        </div>
+
         <div 
           className="relative group"
           onMouseEnter={() => setIsHoveringUpload(true)}
@@ -58,33 +273,318 @@ export const UILayer: React.FC<UILayerProps> = ({
             flex items-center gap-3 
             px-8 py-3 
             bg-black/40 backdrop-blur-md 
-            border border-[#d4af37]/40 
-            text-[#d4af37] 
+            border border-[rgb(var(--accent)/0.4)] 
+            text-[rgb(var(--accent))] 
             uppercase tracking-[0.2em] text-xs font-bold
             transition-all duration-300
-            hover:bg-[#d4af37] hover:text-black hover:shadow-[0_0_30px_rgba(212,175,55,0.4)]
+            hover:bg-[rgb(var(--accent))] hover:text-black hover:shadow-[0_0_30px_rgb(var(--accent)/0.4)]
           ">
             <Upload size={14} />
             <span>Add Memories</span>
             <input 
               type="file" 
               multiple 
-              accept="image/*" 
+              accept="image/*,video/*" 
               className="hidden" 
               onChange={handleFileChange}
             />
           </label>
         </div>
 
-        <div className="text-[#d4af37]/40 text-[10px] tracking-widest uppercase mt-2">
-          Drag to Rotate • Click to Focus
+        {/* Theme Picker */}
+        <div className="flex flex-wrap items-center justify-center gap-3 max-w-xl">
+          {themes.map(t => (
+            <div key={t.id} className="relative group/theme">
+              <button
+                onClick={() => onThemeChange(t.id)}
+                title={t.name}
+                className={`flex items-center gap-1.5 uppercase tracking-[0.2em] text-[10px] transition-colors duration-300 ${
+                  t.id === themeId ? 'text-[rgb(var(--accent))]' : 'text-[rgb(var(--accent)/0.4)] hover:text-[rgb(var(--accent))]'
+                }`}
+              >
+                <span
+                  className={`w-2.5 h-2.5 rounded-full border ${t.id === themeId ? 'border-white' : 'border-transparent'}`}
+                  style={{ background: t.ui.accent }}
+                />
+                <span>{t.name}</span>
+              </button>
+              {t.id.startsWith('custom-') && (
+                <button
+                  onClick={() => onRemoveTheme(t.id)}
+                  aria-label={`Remove ${t.name}`}
+                  className="absolute -top-2 -right-3 hidden group-hover/theme:block text-[rgb(var(--accent)/0.5)] hover:text-[rgb(var(--accent))]"
+                >
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+          ))}
+          <label className={libraryButtonClass} title="Import a theme defined as JSON">
+            <Palette size={12} />
+            <span>Custom</span>
+            <input 
+              type="file" 
+              accept="application/json,.json" 
+              className="hidden" 
+              onChange={handleThemeFileChange}
+            />
+          </label>
+        </div>
+
+        {/* Memory Library */}
+        <div className="flex items-center gap-5">
+          <button
+            onClick={toggleGallery}
+            title="Remove, reorder and replace photos"
+            className={`${libraryButtonClass} ${galleryOpen ? '!text-[rgb(var(--accent))]' : ''}`}
+          >
+            <Images size={12} />
+            <span>Gallery</span>
+          </button>
+          <button onClick={onExportMemories} disabled={memories.length === 0} className={libraryButtonClass}>
+            <Download size={12} />
+            <span>Export ({memories.length})</span>
+          </button>
+          <label className={libraryButtonClass}>
+            <ArchiveRestore size={12} />
+            <span>Import</span>
+            <input 
+              type="file" 
+              accept="application/json,.json" 
+              className="hidden" 
+              onChange={handleArchiveChange}
+            />
+          </label>
+          <button onClick={onClearMemories} disabled={memories.length === 0} className={libraryButtonClass}>
+            <Trash2 size={12} />
+            <span>Clear</span>
+          </button>
+          <button
+            onClick={onToggleSlideshow}
+            title={slideshow === 'off' ? 'Show every photo in turn (L)' : 'Stop the slideshow (L)'}
+            className={`${libraryButtonClass} ${slideshow !== 'off' ? '!text-[rgb(var(--accent))]' : ''}`}
+          >
+            {slideshow === 'off' ? <Play size={12} /> : <Pause size={12} />}
+            <span>{slideshow === 'held' ? 'Slideshow Held' : 'Slideshow'}</span>
+          </button>
+        </div>
+
+        {/* Music */}
+        <div className="flex flex-wrap items-center justify-center gap-4">
+          <label className={libraryButtonClass} title="Play local audio files as a playlist">
+            <Music size={12} />
+            <span>{playback.tracks.length > 0 ? 'Change Music' : 'Add Music'}</span>
+            <input 
+              type="file" 
+              multiple 
+              accept="audio/*" 
+              className="hidden" 
+              onChange={handleMusicFileChange}
+            />
+          </label>
+          {playback.tracks.length > 0 && (
+            <div className="flex items-center gap-2">
+              <button onClick={() => onSkipTrack(-1)} aria-label="Previous track" className={libraryButtonClass}>
+                <SkipBack size={12} />
+              </button>
+              <button onClick={onToggleMusic} aria-label={playback.playing ? 'Pause music' : 'Play music'} className={libraryButtonClass}>
+                {playback.playing ? <Pause size={12} /> : <Play size={12} />}
+              </button>
+              <button onClick={() => onSkipTrack(1)} aria-label="Next track" className={libraryButtonClass}>
+                <SkipForward size={12} />
+              </button>
+              <span className="max-w-[10rem] truncate text-[rgb(var(--accent)/0.7)] tracking-[0.2em] text-[10px] uppercase" title={playback.tracks[playback.index]}>
+                {playback.tracks[playback.index]}
+              </span>
+            </div>
+          )}
+          <label className="flex items-center gap-1.5 text-[rgb(var(--accent)/0.5)]" title="Volume">
+            <Volume2 size={12} />
+            <input
+              type="range"
+              min={MUSIC_RANGES.volume.min}
+              max={MUSIC_RANGES.volume.max}
+              step={MUSIC_RANGES.volume.step}
+              value={settings.music.volume}
+              onChange={e => onMusicChange({ ...settings.music, volume: Number(e.target.value) })}
+              aria-label="Music volume"
+              className="w-16 h-1 accent-[rgb(var(--accent))] cursor-pointer"
+            />
+          </label>
+          <label className="flex items-center gap-1.5 text-[rgb(var(--accent)/0.5)]" title="How strongly the lights follow the music">
+            <AudioWaveform size={12} />
+            <input
+              type="range"
+              min={MUSIC_RANGES.reactivity.min}
+              max={MUSIC_RANGES.reactivity.max}
+              step={MUSIC_RANGES.reactivity.step}
+              value={settings.music.reactivity}
+              onChange={e => onMusicChange({ ...settings.music, reactivity: Number(e.target.value) })}
+              aria-label="Music reactivity"
+              className="w-16 h-1 accent-[rgb(var(--accent))] cursor-pointer"
+            />
+          </label>
+          <button
+            onClick={() => onMusicChange({ ...settings.music, beatPulse: !settings.music.beatPulse })}
+            title="Beats scatter the ornaments for a moment"
+            className={`uppercase tracking-[0.2em] text-[10px] transition-colors duration-300 ${
+              settings.music.beatPulse ? 'text-[rgb(var(--accent))]' : 'text-[rgb(var(--accent)/0.4)] hover:text-[rgb(var(--accent))]'
+            }`}
+          >
+            Beat {settings.music.beatPulse ? 'On' : 'Off'}
+          </button>
+        </div>
+
+        <div className="text-[rgb(var(--accent)/0.4)] text-[10px] tracking-widest uppercase mt-2">
+          {handCount >= 2
+            ? 'Spread to Zoom • Twist to Rotate'
+            : handCount === 1
+              ? slideshow !== 'off'
+                ? 'Slideshow continues when your hand is lowered • Thumb up to Stop'
+                : mode === 'FOCUS'
+                  ? 'Swipe to Browse • Open to Release'
+                  : 'Fist to Gather • Open to Scatter • Pinch to Focus • Victory to Record • Thumb up for Slideshow'
+              : mode === 'FOCUS'
+                ? '← → to Browse • Click to Release'
+                : 'Drag to Rotate • Click to Focus'}
         </div>
       </div>
 
+      {/* Photo Browsing (Focus mode) */}
+      {mode === 'FOCUS' && (
+        <>
+          <button
+            onClick={onPrevPhoto}
+            aria-label="Previous photo"
+            className="pointer-events-auto absolute left-6 top-1/2 -translate-y-1/2 p-3 text-[rgb(var(--accent)/0.5)] hover:text-[rgb(var(--accent))] transition-colors duration-300"
+          >
+            <ChevronLeft size={36} strokeWidth={1} />
+          </button>
+          <button
+            onClick={onNextPhoto}
+            aria-label="Next photo"
+            className="pointer-events-auto absolute right-6 top-1/2 -translate-y-1/2 p-3 text-[rgb(var(--accent)/0.5)] hover:text-[rgb(var(--accent))] transition-colors duration-300"
+          >
+            <ChevronRight size={36} strokeWidth={1} />
+          </button>
+          {focusPosition && (
+            <div className="absolute right-6 top-1/2 mt-8 w-[60px] text-center text-[rgb(var(--accent)/0.6)] tracking-[0.3em] text-[10px] tabular-nums">
+              {focusPosition.index + 1} / {focusPosition.count}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Tracking HUD */}
+      {hudVisible && !isHidden && (
+        <TrackingHUD
+          trackingStatus={trackingStatus}
+          handCount={handCount}
+          gesture={gesture}
+          mode={mode}
+          subscribeHandFrames={subscribeHandFrames}
+          performanceStats={performanceStats}
+          themeId={themeId}
+        />
+      )}
+
+      {/* Settings Drawer */}
+      {settingsOpen && !isHidden && (
+        <SettingsPanel
+          settings={settings}
+          themeBloom={themeBloom}
+          onChange={onSettingsChange}
+          onReset={onResetSettings}
+          onClose={toggleSettings}
+          performanceStats={performanceStats}
+        />
+      )}
+
+      {/* Gallery Drawer */}
+      {galleryOpen && !isHidden && (
+        <GalleryPanel
+          memories={memories}
+          defaultMemoryId={defaultMemoryId}
+          frameStyle={settings.frameStyle}
+          greeting={greeting}
+          onRemove={onRemoveMemory}
+          onReorder={onReorderMemories}
+          onReplace={onReplaceMemory}
+          onUpdate={onUpdateMemory}
+          onSetDefault={onSetDefaultMemory}
+          onClose={toggleGallery}
+        />
+      )}
+
+      {/* Hand Tracking Fallback Notice */}
+      {!hudVisible && ['camera-denied', 'camera-unavailable', 'model-unavailable'].includes(trackingStatus.state) && (
+        <div className={`absolute bottom-8 left-8 max-w-xs text-[10px] tracking-widest uppercase text-[rgb(var(--accent)/0.5)] transition-opacity duration-700 ${isHidden ? 'opacity-0' : 'opacity-100'}`}>
+          {trackingStatus.message ?? 'Hand tracking unavailable'}
+          <span className="block text-[rgb(var(--accent)/0.3)] mt-1">Using mouse, touch &amp; keyboard controls</span>
+        </div>
+      )}
+
+      {/* HUD Toggle */}
+      <button 
+        onClick={toggleHud}
+        aria-label="Toggle tracking status"
+        className={`pointer-events-auto absolute bottom-8 right-20 transition-all duration-300 ${hudVisible ? 'text-[rgb(var(--accent))]' : 'text-[rgb(var(--accent)/0.3)] hover:text-[rgb(var(--accent))]'} ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        <Activity size={20} />
+      </button>
+
+      {/* Snow Toggle */}
+      <button 
+        onClick={onToggleSnow}
+        aria-label="Toggle snowfall"
+        title={snowEnabled ? 'Stop snow (N)' : 'Let it snow (N)'}
+        className={`pointer-events-auto absolute bottom-8 right-80 transition-all duration-300 ${snowEnabled ? 'text-[rgb(var(--accent))]' : 'text-[rgb(var(--accent)/0.3)] hover:text-[rgb(var(--accent))]'} ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        <Snowflake size={20} />
+      </button>
+
+      {/* Share Link */}
+      <button 
+        onClick={handleCopyLink}
+        aria-label="Copy link to this scene"
+        title={linkCopied ? 'Link copied' : 'Copy link'}
+        className={`pointer-events-auto absolute bottom-8 right-[17rem] transition-all duration-300 ${linkCopied ? 'text-[rgb(var(--accent))]' : 'text-[rgb(var(--accent)/0.3)] hover:text-[rgb(var(--accent))]'} ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        {linkCopied ? <Check size={20} /> : <Link2 size={20} />}
+      </button>
+
+      {/* Capture */}
+      <button 
+        onClick={() => onCapture('clip')}
+        disabled={recording}
+        aria-label={`Record a ${clipSeconds} second clip`}
+        title={recording ? 'Recording…' : `Record ${clipSeconds}s clip (V)`}
+        className={`pointer-events-auto absolute bottom-8 right-56 transition-all duration-300 ${recording ? 'text-red-500 animate-pulse' : 'text-[rgb(var(--accent)/0.3)] hover:text-[rgb(var(--accent))]'} ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        <Video size={20} />
+      </button>
+      <button 
+        onClick={() => onCapture('still')}
+        aria-label="Save a still image"
+        title="Save image (P)"
+        className={`pointer-events-auto absolute bottom-8 right-44 text-[rgb(var(--accent)/0.3)] hover:text-[rgb(var(--accent))] transition-all duration-300 ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        <Camera size={20} />
+      </button>
+
+      {/* Settings Toggle */}
+      <button 
+        onClick={toggleSettings}
+        aria-label="Toggle settings"
+        className={`pointer-events-auto absolute bottom-8 right-32 transition-all duration-300 ${settingsOpen ? 'text-[rgb(var(--accent))]' : 'text-[rgb(var(--accent)/0.3)] hover:text-[rgb(var(--accent))]'} ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        <SlidersHorizontal size={20} />
+      </button>
+
       {/* Visibility Toggle (Always Visible) */}
       <button 
         onClick={toggleVisibility}
-        className="pointer-events-auto absolute bottom-8 right-8 text-[#d4af37]/30 hover:text-[#d4af37] transition-colors duration-300"
+        className="pointer-events-auto absolute bottom-8 right-8 text-[rgb(var(--accent)/0.3)] hover:text-[rgb(var(--accent))] transition-colors duration-300"
       >
         {isHidden ? <Eye size={20} /> : <EyeOff size={20} />}
       </button>
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GESTURE_CONFIG, GestureRecognizer, Landmark, measureHand } from './gestureRecognizer';
+import handFrames from './__fixtures__/handFrames.json';
+
+// Webcam frames in MediaPipe's 21-landmark layout (normalized image coordinates), one per pose
+const FRAMES: Record<keyof typeof handFrames, Landmark[]> = handFrames;
+
+const FINGER_TIPS = [8, 12, 16, 20];
+const FRAME_MS = 33;
+
+/** `hand` with its finger tips moved along their wrist direction to average `openness`. */
+const withOpenness = (hand: Landmark[], openness: number): Landmark[] => {
+  const wrist = hand[0];
+  const factor = openness / measureHand(hand).openness;
+  return hand.map((p, i) =>
+    FINGER_TIPS.includes(i) ? { ...p, x: wrist.x + (p.x - wrist.x) * factor, y: wrist.y + (p.y - wrist.y) * factor } : p
+  );
+};
+
+/** Feeds `hand` every frame from `from` until `to` (inclusive); returns the events reported. */
+const feed = (recognizer: GestureRecognizer, hand: Landmark[] | null, from: number, to: number) => {
+  const events = [];
+  for (let t = from; t <= to; t += FRAME_MS) {
+    const event = recognizer.update(hand, t);
+    if (event) events.push(event);
+  }
+  return events;
+};
+
+describe('GestureRecognizer.classify', () => {
+  it.each([
+    ['open', 'OPEN'],
+    ['fist', 'FIST'],
+    ['pinch', 'PINCH'],
+    ['victory', 'VICTORY'],
+    ['thumbUp', 'THUMB_UP'],
+    ['relaxed', 'NONE'],
+  ] as const)('recognizes the %s frame as %s', (pose, gesture) => {
+    expect(new GestureRecognizer().classify(FRAMES[pose]).gesture).toBe(gesture);
+  });
+
+  it('puts a hand on the entry threshold at confidence 0.5', () => {
+    const { fistThreshold } = DEFAULT_GESTURE_CONFIG;
+    const atThreshold = withOpenness(FRAMES.fist, fistThreshold - 1e-6);
+    expect(new GestureRecognizer().classify(atThreshold).confidence).toBeCloseTo(0.5, 3);
+  });
+});
+
+describe('hysteresis', () => {
+  const { fistThreshold, openThreshold, hysteresis } = DEFAULT_GESTURE_CONFIG;
+  const recognizer = new GestureRecognizer();
+
+  it('keeps a held fist that opens slightly past the threshold', () => {
+    const loose = withOpenness(FRAMES.fist, fistThreshold + hysteresis / 2);
+    expect(recognizer.classify(loose, 'FIST').gesture).toBe('FIST');
+    expect(recognizer.classify(loose, 'NONE').gesture).toBe('NONE');
+  });
+
+  it('releases a fist once it opens past the margin', () => {
+    const opened = withOpenness(FRAMES.fist, fistThreshold + hysteresis * 1.5);
+    expect(recognizer.classify(opened, 'FIST').gesture).toBe('NONE');
+  });
+
+  it('keeps a held open hand that closes slightly past the threshold', () => {
+    const closing = withOpenness(FRAMES.open, openThreshold - hysteresis / 2);
+    expect(recognizer.classify(closing, 'OPEN').gesture).toBe('OPEN');
+    expect(recognizer.classify(closing, 'NONE').gesture).toBe('NONE');
+  });
+
+  it('does not flicker while a hand hovers around the threshold', () => {
+    const tracker = new GestureRecognizer();
+    expect(feed(tracker, FRAMES.fist, 0, 300).map(e => e.gesture)).toEqual(['FIST']);
+
+    // Jitter either side of the fist threshold, inside the margin
+    const hovering = [-0.01, 0.01, 0.02, -0.005, 0.015].map(d => withOpenness(FRAMES.fist, fistThreshold + d));
+    const events = hovering.flatMap((hand, i) => feed(tracker, hand, 330 + i * 200, 330 + i * 200 + 180));
+    expect(events).toEqual([]);
+    expect(tracker.current).toBe('FIST');
+  });
+});
+
+describe('hold-time debounce', () => {
+  const { holdMs, victoryHoldMs } = DEFAULT_GESTURE_CONFIG;
+
+  it('reports a gesture only after it has been held for holdMs', () => {
+    const recognizer = new GestureRecognizer();
+    expect(recognizer.update(FRAMES.fist, 1000)).toBeNull();
+    expect(recognizer.update(FRAMES.fist, 1000 + holdMs - 1)).toBeNull();
+
+    const event = recognizer.update(FRAMES.fist, 1000 + holdMs);
+    expect(event).toMatchObject({ gesture: 'FIST', timestamp: 1000 + holdMs, startedAt: 1000 });
+    expect(recognizer.update(FRAMES.fist, 1000 + holdMs * 2)).toBeNull();
+  });
+
+  it('restarts the hold when a single frame disagrees', () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.update(FRAMES.open, 0);
+    recognizer.update(FRAMES.relaxed, 100);
+    expect(recognizer.update(FRAMES.open, 120)).toBeNull();
+    expect(recognizer.update(FRAMES.open, 120 + holdMs - 1)).toBeNull();
+    expect(recognizer.update(FRAMES.open, 120 + holdMs)?.gesture).toBe('OPEN');
+  });
+
+  it('holds the victory sign longer before reporting it', () => {
+    const recognizer = new GestureRecognizer();
+    expect(feed(recognizer, FRAMES.victory, 0, victoryHoldMs - 1)).toEqual([]);
+    expect(recognizer.update(FRAMES.victory, victoryHoldMs)?.gesture).toBe('VICTORY');
+  });
+
+  it('releases at once when the hand leaves the view', () => {
+    const recognizer = new GestureRecognizer();
+    feed(recognizer, FRAMES.pinch, 0, 300);
+    expect(recognizer.current).toBe('PINCH');
+    expect(recognizer.update(null, 333)).toMatchObject({ gesture: 'NONE', startedAt: 333 });
+  });
+
+  it('replays a recorded sequence into one event per gesture', () => {
+    const recognizer = new GestureRecognizer();
+    const events = [
+      ...feed(recognizer, FRAMES.relaxed, 0, 300),
+      ...feed(recognizer, FRAMES.fist, 330, 660),
+      ...feed(recognizer, FRAMES.open, 690, 990),
+      ...feed(recognizer, null, 1020, 1100),
+    ];
+    expect(events.map(e => e.gesture)).toEqual(['FIST', 'OPEN', 'NONE']);
+  });
+});
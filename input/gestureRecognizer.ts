@@ -0,0 +1,181 @@
+// --- Hand Gesture Recognizer ---
+// Turns MediaPipe hand landmark frames into debounced gesture events. It has no DOM, camera
+// or three.js dependencies, so recorded landmark frames can be replayed through it directly.
+
+export type GestureType = 'FIST' | 'PINCH' | 'OPEN' | 'VICTORY' | 'THUMB_UP' | 'NONE';
+
+/** One landmark in MediaPipe's normalized image coordinates (0..1). */
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface GestureEvent {
+  gesture: GestureType;
+  /** 0..1; 0.5 means the hand sits exactly on the entry threshold. */
+  confidence: number;
+  /** Time of the frame that confirmed the gesture. */
+  timestamp: number;
+  /** Time the gesture was first seen, before debouncing. */
+  startedAt: number;
+}
+
+export interface GestureConfig {
+  /** Average wrist-to-fingertip distance below which the hand is a fist. */
+  fistThreshold: number;
+  /** Average wrist-to-fingertip distance above which the hand is open. */
+  openThreshold: number;
+  /** Thumb-to-index tip distance below which the hand is pinching. */
+  pinchThreshold: number;
+  /** Victory sign: index and middle tips at least this far from the wrist... */
+  extendedThreshold: number;
+  /** ...while ring and pinky tips are closer than this. */
+  curledThreshold: number;
+  /** Thumb up: thumb tip at least this far above the wrist, with all four fingers curled. */
+  thumbThreshold: number;
+  /** Extra distance a held gesture may drift past its threshold before it is released. */
+  hysteresis: number;
+  /** How long a new gesture must persist before it is reported. */
+  holdMs: number;
+  /** Longer hold for the victory sign, since it starts a recording. */
+  victoryHoldMs: number;
+  /** Longer hold for the thumb, since it starts or stops the slideshow. */
+  thumbHoldMs: number;
+}
+
+// Thresholds tuned for typical webcam distance:
+// Fist: tips close to the wrist (< 0.25). Open: tips far (> 0.45). Pinch: thumb and index touching (< 0.08).
+// Victory: index and middle out (> 0.4), ring and pinky folded (< 0.28).
+// Thumb up: fingers folded (< 0.28) and the thumb tip well above the wrist (> 0.3).
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  fistThreshold: 0.25,
+  openThreshold: 0.45,
+  pinchThreshold: 0.08,
+  extendedThreshold: 0.4,
+  curledThreshold: 0.28,
+  hysteresis: 0.03,
+  holdMs: 150,
+  thumbThreshold: 0.3,
+  victoryHoldMs: 500,
+  thumbHoldMs: 500,
+};
+
+// MediaPipe hand landmark indices
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_TIP = 12;
+const RING_TIP = 16;
+const PINKY_TIP = 20;
+
+const dist2D = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export interface HandMetrics {
+  /** Thumb tip to index tip distance. */
+  pinch: number;
+  /** Average distance from the wrist to the four finger tips. */
+  openness: number;
+  /** Wrist-to-tip distance of the index, middle, ring and pinky fingers. */
+  fingers: number[];
+  /** How far the thumb tip is above the wrist (negative when below). */
+  thumbRise: number;
+}
+
+export const measureHand = (hand: Landmark[]): HandMetrics => {
+  const wrist = hand[WRIST];
+  const fingers = [hand[INDEX_TIP], hand[MIDDLE_TIP], hand[RING_TIP], hand[PINKY_TIP]].map(t => dist2D(t, wrist));
+  return {
+    pinch: dist2D(hand[THUMB_TIP], hand[INDEX_TIP]),
+    openness: fingers.reduce((sum, d) => sum + d, 0) / fingers.length,
+    fingers,
+    thumbRise: wrist.y - hand[THUMB_TIP].y,
+  };
+};
+
+export class GestureRecognizer {
+  readonly config: GestureConfig;
+
+  private stable: GestureType = 'NONE';
+  private candidate: GestureType = 'NONE';
+  private candidateSince = 0;
+
+  constructor(config: Partial<GestureConfig> = {}) {
+    this.config = { ...DEFAULT_GESTURE_CONFIG, ...config };
+  }
+
+  /** The last gesture that survived debouncing. */
+  get current(): GestureType {
+    return this.stable;
+  }
+
+  /**
+   * Classifies a single frame without debouncing. The currently held gesture gets the
+   * hysteresis margin, so a hand hovering near a threshold does not flip back and forth.
+   * Priority: Thumb up (Slideshow) > Fist (Reset) > Pinch (Focus) > Victory (Record) > Open (Scatter).
+   * A thumb up is a fist with the thumb raised, so it has to be ruled out first.
+   */
+  classify(hand: Landmark[], held: GestureType = this.stable): { gesture: GestureType; confidence: number } {
+    const { fistThreshold, openThreshold, pinchThreshold, extendedThreshold, curledThreshold, thumbThreshold, hysteresis } = this.config;
+    const { pinch, openness, fingers, thumbRise } = measureHand(hand);
+    const margin = (g: GestureType) => (g === held ? hysteresis : 0);
+
+    const thumbLimit = thumbThreshold - margin('THUMB_UP');
+    const foldedLimit = curledThreshold + margin('THUMB_UP');
+    if (thumbRise > thumbLimit && Math.max(...fingers) < foldedLimit) {
+      const spread = Math.min(thumbRise - thumbThreshold, curledThreshold - Math.max(...fingers));
+      return { gesture: 'THUMB_UP', confidence: clamp01(0.5 + spread / curledThreshold) };
+    }
+
+    const fistLimit = fistThreshold + margin('FIST');
+    if (openness < fistLimit) {
+      return { gesture: 'FIST', confidence: clamp01(0.5 + (fistThreshold - openness) / fistThreshold) };
+    }
+    const pinchLimit = pinchThreshold + margin('PINCH');
+    if (pinch < pinchLimit) {
+      return { gesture: 'PINCH', confidence: clamp01(0.5 + (pinchThreshold - pinch) / pinchThreshold) };
+    }
+    const [index, middle, ring, pinky] = fingers;
+    const extendedLimit = extendedThreshold - margin('VICTORY');
+    const curledLimit = curledThreshold + margin('VICTORY');
+    if (Math.min(index, middle) > extendedLimit && Math.max(ring, pinky) < curledLimit) {
+      const spread = Math.min(Math.min(index, middle) - extendedThreshold, curledThreshold - Math.max(ring, pinky));
+      return { gesture: 'VICTORY', confidence: clamp01(0.5 + spread / curledThreshold) };
+    }
+    const openLimit = openThreshold - margin('OPEN');
+    if (openness > openLimit) {
+      return { gesture: 'OPEN', confidence: clamp01(0.5 + (openness - openThreshold) / openThreshold) };
+    }
+    return { gesture: 'NONE', confidence: 1 };
+  }
+
+  /**
+   * Feeds one frame (or null when no hand is visible) and returns an event when the
+   * debounced gesture changes, otherwise null.
+   */
+  update(hand: Landmark[] | null, timestamp: number): GestureEvent | null {
+    const { gesture, confidence } = hand ? this.classify(hand) : { gesture: 'NONE' as const, confidence: 1 };
+
+    if (gesture !== this.candidate) {
+      this.candidate = gesture;
+      this.candidateSince = timestamp;
+    }
+
+    // Losing the hand releases immediately; everything else must be held
+    const held = gesture === 'NONE' && !hand ? Infinity : timestamp - this.candidateSince;
+    const { holdMs: baseHoldMs, victoryHoldMs, thumbHoldMs } = this.config;
+    const holdMs = gesture === 'VICTORY' ? victoryHoldMs : gesture === 'THUMB_UP' ? thumbHoldMs : baseHoldMs;
+    if (gesture === this.stable || held < holdMs) return null;
+
+    this.stable = gesture;
+    return { gesture, confidence, timestamp, startedAt: this.candidateSince };
+  }
+
+  reset() {
+    this.stable = 'NONE';
+    this.candidate = 'NONE';
+    this.candidateSince = 0;
+  }
+}
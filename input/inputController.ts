@@ -0,0 +1,266 @@
+import { AppMode } from '../types';
+import { GestureEvent } from './gestureRecognizer';
+import { SwipeDirection } from './swipeDetector';
+import { TwoHandDelta } from './twoHandGesture';
+
+// --- Unified Input Layer ---
+// Mouse, touch, keyboard and hand tracking are all translated into the same small set of
+// scene actions, so every source drives modes, browsing, rotation and zoom identically.
+
+export type InputSource = 'mouse' | 'touch' | 'pen' | 'keyboard' | 'hand';
+
+export type CaptureKind = 'still' | 'clip';
+
+export type InputAction =
+  | { type: 'SET_MODE'; mode: AppMode }
+  /** Tap/click at a point in normalized device coordinates (-1..1): focus a photo or cycle modes. */
+  | { type: 'SELECT'; x: number; y: number }
+  | { type: 'BROWSE'; step: number }
+  /** Rotation deltas in radians around the vertical (yaw) and horizontal (pitch) axes. */
+  | { type: 'ROTATE'; yaw: number; pitch: number }
+  /** Multiplicative zoom; > 1 moves the camera closer. */
+  | { type: 'ZOOM'; factor: number }
+  | { type: 'RESET_VIEW' }
+  | { type: 'TOGGLE_PAUSE' }
+  | { type: 'TOGGLE_SNOW' }
+  /** Start or stop the timed photo slideshow. */
+  | { type: 'TOGGLE_SLIDESHOW' }
+  /** Save a PNG still or record a WebM clip of the scene. */
+  | { type: 'CAPTURE'; kind: CaptureKind }
+  /** Hover position in normalized device coordinates, used for gentle parallax. */
+  | { type: 'POINTER'; x: number; y: number };
+
+export type InputHandler = (action: InputAction, source: InputSource) => void;
+
+export interface InputConfig {
+  /** Radians of rotation per full-width drag. */
+  dragRotateSpeed: number;
+  /** Movement (px) after which a press counts as a drag rather than a tap. */
+  tapSlop: number;
+  /** Max gap between taps of a double-tap. */
+  doubleTapMs: number;
+  /** Radians per arrow key press when not browsing photos. */
+  keyRotateStep: number;
+  /** Zoom factor per +/- or arrow key press. */
+  keyZoomStep: number;
+  /** Radians of tree rotation per radian of two-hand twist. */
+  twistGain: number;
+}
+
+export const DEFAULT_INPUT_CONFIG: InputConfig = {
+  dragRotateSpeed: Math.PI * 1.5,
+  tapSlop: 8,
+  doubleTapMs: 280,
+  keyRotateStep: 0.25,
+  keyZoomStep: 1.1,
+  twistGain: 1.5,
+};
+
+interface ActivePointer {
+  x: number;
+  y: number;
+  startX: number;
+  startY: number;
+}
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export class InputController {
+  readonly config: InputConfig;
+
+  private pointers = new Map<number, ActivePointer>();
+  private dragged = false;
+  private pinchDistance = 0;
+  private pendingTap: ReturnType<typeof setTimeout> | null = null;
+  private lastTapAt = 0;
+
+  /**
+   * @param surface element that receives pointer input (the WebGL canvas)
+   * @param handler applies actions to the scene
+   * @param getMode lets keyboard arrows browse in FOCUS and rotate otherwise
+   */
+  constructor(
+    private surface: HTMLElement,
+    private handler: InputHandler,
+    private getMode: () => AppMode,
+    config: Partial<InputConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_INPUT_CONFIG, ...config };
+
+    // Let the canvas own touch gestures instead of the browser's scroll/zoom
+    surface.style.touchAction = 'none';
+    surface.addEventListener('pointerdown', this.onPointerDown);
+    surface.addEventListener('pointermove', this.onPointerMove);
+    surface.addEventListener('pointerup', this.onPointerUp);
+    surface.addEventListener('pointercancel', this.onPointerUp);
+    surface.addEventListener('wheel', this.onWheel, { passive: false });
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  dispose() {
+    this.surface.removeEventListener('pointerdown', this.onPointerDown);
+    this.surface.removeEventListener('pointermove', this.onPointerMove);
+    this.surface.removeEventListener('pointerup', this.onPointerUp);
+    this.surface.removeEventListener('pointercancel', this.onPointerUp);
+    this.surface.removeEventListener('wheel', this.onWheel);
+    window.removeEventListener('keydown', this.onKeyDown);
+    if (this.pendingTap) clearTimeout(this.pendingTap);
+  }
+
+  // --- Hand tracking ---
+
+  /**
+   * Debounced one-hand gesture: Fist gathers the tree, Open scatters, Pinch focuses, Victory
+   * records a clip and Thumb up starts or stops the slideshow.
+   */
+  handGesture({ gesture }: GestureEvent) {
+    if (gesture === 'FIST') this.handler({ type: 'SET_MODE', mode: 'TREE' }, 'hand');
+    else if (gesture === 'OPEN') this.handler({ type: 'SET_MODE', mode: 'SCATTER' }, 'hand');
+    else if (gesture === 'PINCH') this.handler({ type: 'SET_MODE', mode: 'FOCUS' }, 'hand');
+    else if (gesture === 'VICTORY') this.handler({ type: 'CAPTURE', kind: 'clip' }, 'hand');
+    else if (gesture === 'THUMB_UP') this.handler({ type: 'TOGGLE_SLIDESHOW' }, 'hand');
+  }
+
+  handSwipe(direction: SwipeDirection) {
+    this.handler({ type: 'BROWSE', step: direction === 'RIGHT' ? 1 : -1 }, 'hand');
+  }
+
+  handTwoHand({ zoom, twist }: TwoHandDelta) {
+    if (zoom !== 1) this.handler({ type: 'ZOOM', factor: zoom }, 'hand');
+    if (twist !== 0) this.handler({ type: 'ROTATE', yaw: twist * this.config.twistGain, pitch: 0 }, 'hand');
+  }
+
+  // --- Pointer (mouse, touch, pen) ---
+
+  private toNDC(clientX: number, clientY: number) {
+    const rect = this.surface.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width) * 2 - 1,
+      y: -((clientY - rect.top) / rect.height) * 2 + 1,
+    };
+  }
+
+  private source(e: PointerEvent): InputSource {
+    return e.pointerType === 'touch' || e.pointerType === 'pen' ? e.pointerType : 'mouse';
+  }
+
+  private onPointerDown = (e: PointerEvent) => {
+    this.surface.setPointerCapture(e.pointerId);
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY, startX: e.clientX, startY: e.clientY });
+    if (this.pointers.size === 1) this.dragged = false;
+    if (this.pointers.size === 2) {
+      this.dragged = true;
+      this.pinchDistance = this.currentPinchDistance();
+    }
+  };
+
+  private onPointerMove = (e: PointerEvent) => {
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) {
+      if (e.pointerType === 'mouse') this.handler({ type: 'POINTER', ...this.toNDC(e.clientX, e.clientY) }, 'mouse');
+      return;
+    }
+
+    const dx = e.clientX - pointer.x;
+    const dy = e.clientY - pointer.y;
+    pointer.x = e.clientX;
+    pointer.y = e.clientY;
+
+    if (this.pointers.size >= 2) {
+      // Two-finger pinch zooms
+      const distance = this.currentPinchDistance();
+      if (this.pinchDistance > 0 && distance > 0) {
+        this.handler({ type: 'ZOOM', factor: distance / this.pinchDistance }, this.source(e));
+      }
+      this.pinchDistance = distance;
+      return;
+    }
+
+    if (!this.dragged && Math.hypot(e.clientX - pointer.startX, e.clientY - pointer.startY) > this.config.tapSlop) {
+      this.dragged = true;
+    }
+    if (this.dragged) {
+      const rect = this.surface.getBoundingClientRect();
+      const speed = this.config.dragRotateSpeed;
+      this.handler({ type: 'ROTATE', yaw: (dx / rect.width) * speed, pitch: (dy / rect.height) * speed * 0.5 }, this.source(e));
+    }
+  };
+
+  private onPointerUp = (e: PointerEvent) => {
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) return;
+    this.pointers.delete(e.pointerId);
+    if (this.pointers.size > 0) {
+      this.pinchDistance = 0;
+      return;
+    }
+    if (this.dragged || e.type === 'pointercancel') return;
+
+    // Tap: wait briefly so a double-tap can replace it
+    const source = this.source(e);
+    const point = this.toNDC(e.clientX, e.clientY);
+    const now = performance.now();
+    if (this.pendingTap && now - this.lastTapAt < this.config.doubleTapMs) {
+      clearTimeout(this.pendingTap);
+      this.pendingTap = null;
+      this.handler({ type: 'RESET_VIEW' }, source);
+      return;
+    }
+    this.lastTapAt = now;
+    this.pendingTap = setTimeout(() => {
+      this.pendingTap = null;
+      this.handler({ type: 'SELECT', ...point }, source);
+    }, this.config.doubleTapMs);
+  };
+
+  private currentPinchDistance() {
+    const [a, b] = Array.from(this.pointers.values());
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  }
+
+  private onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    this.handler({ type: 'ZOOM', factor: Math.exp(-e.deltaY * 0.001) }, 'mouse');
+  };
+
+  // --- Keyboard ---
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+    // Space on a focused UI button should press the button, not pause the scene
+    if (e.key === ' ' && e.target instanceof HTMLButtonElement) return;
+
+    const { keyRotateStep, keyZoomStep } = this.config;
+    const browsing = this.getMode() === 'FOCUS';
+    let action: InputAction | null = null;
+
+    switch (e.key) {
+      case 't': case 'T': action = { type: 'SET_MODE', mode: 'TREE' }; break;
+      case 's': case 'S': action = { type: 'SET_MODE', mode: 'SCATTER' }; break;
+      case 'f': case 'F': action = { type: 'SET_MODE', mode: 'FOCUS' }; break;
+      case 'g': case 'G': action = { type: 'SET_MODE', mode: 'GREETING' }; break;
+      case 'Escape': action = { type: 'SET_MODE', mode: 'SCATTER' }; break;
+      case 'r': case 'R': action = { type: 'RESET_VIEW' }; break;
+      case ' ': action = { type: 'TOGGLE_PAUSE' }; break;
+      case 'n': case 'N': action = { type: 'TOGGLE_SNOW' }; break;
+      case 'l': case 'L': action = { type: 'TOGGLE_SLIDESHOW' }; break;
+      case 'p': case 'P': action = { type: 'CAPTURE', kind: 'still' }; break;
+      case 'v': case 'V': action = { type: 'CAPTURE', kind: 'clip' }; break;
+      case 'ArrowRight':
+        action = browsing ? { type: 'BROWSE', step: 1 } : { type: 'ROTATE', yaw: keyRotateStep, pitch: 0 };
+        break;
+      case 'ArrowLeft':
+        action = browsing ? { type: 'BROWSE', step: -1 } : { type: 'ROTATE', yaw: -keyRotateStep, pitch: 0 };
+        break;
+      case 'ArrowUp': case '+': case '=': action = { type: 'ZOOM', factor: keyZoomStep }; break;
+      case 'ArrowDown': case '-': case '_': action = { type: 'ZOOM', factor: 1 / keyZoomStep }; break;
+    }
+
+    if (action) {
+      e.preventDefault();
+      this.handler(action, 'keyboard');
+    }
+  };
+}
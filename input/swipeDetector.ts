@@ -0,0 +1,74 @@
+// --- Horizontal Swipe Detector ---
+// Watches the hand centre over a short window and reports a LEFT or RIGHT swipe when it
+// travels far enough sideways, fast enough, without much vertical drift.
+
+export type SwipeDirection = 'LEFT' | 'RIGHT';
+
+export interface SwipeConfig {
+  /** Time window the travel is measured over. */
+  windowMs: number;
+  /** Minimum horizontal travel within the window, in normalized image widths. */
+  minDistance: number;
+  /** Maximum vertical travel relative to the horizontal travel. */
+  maxSlope: number;
+  /** Quiet period after a swipe so the return stroke isn't read as the opposite swipe. */
+  cooldownMs: number;
+}
+
+export const DEFAULT_SWIPE_CONFIG: SwipeConfig = {
+  windowMs: 350,
+  minDistance: 0.22,
+  maxSlope: 0.6,
+  cooldownMs: 700,
+};
+
+interface Sample {
+  x: number;
+  y: number;
+  t: number;
+}
+
+export class SwipeDetector {
+  readonly config: SwipeConfig;
+
+  private samples: Sample[] = [];
+  private cooldownUntil = 0;
+
+  constructor(config: Partial<SwipeConfig> = {}) {
+    this.config = { ...DEFAULT_SWIPE_CONFIG, ...config };
+  }
+
+  /**
+   * Feeds the (already mirrored) hand centre in normalized coordinates. Returns the swipe
+   * direction on the frame that completes a swipe, otherwise null.
+   */
+  update(x: number, y: number, timestamp: number): SwipeDirection | null {
+    const { windowMs, minDistance, maxSlope, cooldownMs } = this.config;
+    this.samples.push({ x, y, t: timestamp });
+    while (this.samples.length > 0 && timestamp - this.samples[0].t > windowMs) this.samples.shift();
+
+    if (timestamp < this.cooldownUntil) return null;
+
+    const first = this.samples[0];
+    const dx = x - first.x;
+    const dy = y - first.y;
+    if (Math.abs(dx) < minDistance || Math.abs(dy) > Math.abs(dx) * maxSlope) return null;
+
+    this.samples = [];
+    this.cooldownUntil = timestamp + cooldownMs;
+    return dx > 0 ? 'RIGHT' : 'LEFT';
+  }
+
+  /** True while the hand may be mid-swipe or just finished one; other gestures should wait. */
+  isBusy(timestamp: number): boolean {
+    if (timestamp < this.cooldownUntil) return true;
+    if (this.samples.length < 2) return false;
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    return Math.abs(last.x - first.x) > this.config.minDistance * 0.4;
+  }
+
+  reset() {
+    this.samples = [];
+  }
+}
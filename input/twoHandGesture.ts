@@ -0,0 +1,86 @@
+import { Landmark } from './gestureRecognizer';
+
+// --- Two-Hand Zoom & Twist ---
+// With both hands in view, the distance between the hand centres drives zoom and the angle of
+// the line joining them drives rotation. Deltas are reported per frame so callers can
+// accumulate them onto whatever they control.
+
+export interface TwoHandDelta {
+  /** Multiplicative change in hand spread since the last frame (> 1 = hands moving apart). */
+  zoom: number;
+  /** Change in the angle between the hands since the last frame, in radians. */
+  twist: number;
+}
+
+export interface TwoHandConfig {
+  /** Exponential smoothing factor applied to spread and angle (0 = frozen, 1 = raw). */
+  smoothing: number;
+  /** Spread ratio changes smaller than this are treated as jitter. */
+  zoomDeadzone: number;
+  /** Angle changes (radians) smaller than this are treated as jitter. */
+  twistDeadzone: number;
+}
+
+export const DEFAULT_TWO_HAND_CONFIG: TwoHandConfig = {
+  smoothing: 0.35,
+  zoomDeadzone: 0.004,
+  twistDeadzone: 0.004,
+};
+
+// Middle finger knuckle, the same hand centre used for one-hand rotation
+const HAND_CENTER = 9;
+
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+export class TwoHandTracker {
+  readonly config: TwoHandConfig;
+
+  private spread = 0;
+  private angle = 0;
+  private tracking = false;
+
+  constructor(config: Partial<TwoHandConfig> = {}) {
+    this.config = { ...DEFAULT_TWO_HAND_CONFIG, ...config };
+  }
+
+  /** Returns the frame's zoom/twist delta, or null unless exactly two hands are visible. */
+  update(hands: Landmark[][]): TwoHandDelta | null {
+    if (hands.length !== 2) {
+      this.reset();
+      return null;
+    }
+
+    // Mirror x like the webcam preview, and order hands left to right so the angle is stable
+    const [a, b] = hands
+      .map(h => ({ x: 1 - h[HAND_CENTER].x, y: 1 - h[HAND_CENTER].y }))
+      .sort((p, q) => p.x - q.x);
+    const spread = Math.hypot(b.x - a.x, b.y - a.y);
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+
+    if (!this.tracking || this.spread === 0) {
+      this.spread = spread;
+      this.angle = angle;
+      this.tracking = true;
+      return { zoom: 1, twist: 0 };
+    }
+
+    const { smoothing, zoomDeadzone, twistDeadzone } = this.config;
+    const nextSpread = this.spread + (spread - this.spread) * smoothing;
+    const nextAngle = this.angle + wrapAngle(angle - this.angle) * smoothing;
+
+    let zoom = nextSpread / this.spread;
+    let twist = wrapAngle(nextAngle - this.angle);
+    if (Math.abs(zoom - 1) < zoomDeadzone) zoom = 1;
+    if (Math.abs(twist) < twistDeadzone) twist = 0;
+
+    this.spread = nextSpread;
+    this.angle = nextAngle;
+    return { zoom, twist };
+  }
+
+  reset() {
+    this.tracking = false;
+    this.spread = 0;
+    this.angle = 0;
+  }
+}
@@ -0,0 +1,32 @@
+import * as THREE from 'three';
+
+// --- Disposal ---
+// three.js frees GPU memory only when told to. Tearing the scene down walks the whole graph
+// once and disposes every geometry, material and texture it finds, each exactly once, so
+// shared resources need no bookkeeping.
+
+const texturesOf = (material: THREE.Material): THREE.Texture[] =>
+  Object.values(material).filter((value): value is THREE.Texture => value instanceof THREE.Texture);
+
+/** Disposes every geometry, material and material texture under `root`. */
+export const disposeObject = (root: THREE.Object3D) => {
+  const geometries = new Set<THREE.BufferGeometry>();
+  const materials = new Set<THREE.Material>();
+  const textures = new Set<THREE.Texture>();
+
+  root.traverse((obj: THREE.Object3D) => {
+    if (obj instanceof THREE.Mesh || obj instanceof THREE.Points || obj instanceof THREE.Line) {
+      geometries.add(obj.geometry);
+      const list: THREE.Material[] = Array.isArray(obj.material) ? obj.material : [obj.material];
+      list.forEach(material => {
+        materials.add(material);
+        texturesOf(material).forEach(texture => textures.add(texture));
+      });
+    }
+    if (obj instanceof THREE.InstancedMesh) obj.dispose();
+  });
+
+  geometries.forEach(geometry => geometry.dispose());
+  materials.forEach(material => material.dispose());
+  textures.forEach(texture => texture.dispose());
+};
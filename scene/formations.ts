@@ -0,0 +1,181 @@
+import * as THREE from 'three';
+import { ParticleConfig } from '../types';
+
+// --- Formation Registry ---
+// A formation is a named generator that places particle `index` of `count` somewhere in
+// the main group's local space. Generators draw randomness only from `sample.random`, which
+// is seeded per particle, so a particle keeps its slot when the particle count changes.
+
+export interface FormationSample {
+  index: number;
+  count: number;
+  random: () => number;
+}
+
+export interface Formation {
+  id: string;
+  label: string;
+  /** Writes the target position of one particle into `out`. */
+  position: (sample: FormationSample, out: THREE.Vector3, config: ParticleConfig) => THREE.Vector3;
+  /** Where the star sits for this formation; omit to hide the star. */
+  topper?: (config: ParticleConfig) => THREE.Vector3;
+}
+
+const registry = new Map<string, Formation>();
+
+export const registerFormation = (formation: Formation) => {
+  registry.set(formation.id, formation);
+};
+
+export const getFormation = (id: string): Formation => registry.get(id) ?? registry.get('tree')!;
+
+export const hasFormation = (id: string) => registry.has(id);
+
+export const listFormations = (): Formation[] => Array.from(registry.values());
+
+/** Deterministic PRNG (mulberry32) so every particle owns a stable random stream. */
+export const seededRandom = (seed: number) => {
+  let a = Math.floor(seed * 0xffffffff) >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** SCATTER SHAPE: a large cloud/sphere around the tree; dust spreads further out. */
+export const scatterPosition = (out: THREE.Vector3, isDust: boolean, random: () => number = Math.random) => {
+  const rScatter = isDust ? 15 + random() * 25 : 10 + random() * 15;
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(2 * random() - 1);
+  return out.set(
+    rScatter * Math.sin(phi) * Math.cos(theta),
+    rScatter * Math.sin(phi) * Math.sin(theta),
+    rScatter * Math.cos(phi)
+  );
+};
+
+// --- Built-in Formations ---
+
+// Spiral cone, biased towards the bottom (the original tree layout)
+registerFormation({
+  id: 'tree',
+  label: 'Tree',
+  position: ({ random }, out, { treeHeight, treeRadius }) => {
+    const halfH = treeHeight / 2;
+    const t = Math.pow(random(), 0.8);
+    const y = t * treeHeight - halfH;
+    const rMax = Math.max(treeRadius * (1.0 - t), 0.5);
+    const angle = t * 50 * Math.PI + random() * Math.PI;
+    const r = rMax * (0.8 + random() * 0.4);
+    return out.set(Math.cos(angle) * r, y, Math.sin(angle) * r);
+  },
+  topper: ({ treeHeight }) => new THREE.Vector3(0, treeHeight / 2 + 1.2, 0),
+});
+
+registerFormation({
+  id: 'heart',
+  label: 'Heart',
+  position: ({ random }, out, { treeHeight }) => {
+    const t = random() * Math.PI * 2;
+    const fill = Math.sqrt(0.35 + random() * 0.65);
+    const x = 16 * Math.pow(Math.sin(t), 3);
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    const scale = (treeHeight / 30) * fill;
+    return out.set(x * scale, y * scale + 1, (random() - 0.5) * 3 * fill);
+  },
+});
+
+registerFormation({
+  id: 'star',
+  label: 'Star',
+  position: ({ random }, out, { treeHeight }) => {
+    const points = 5;
+    const outer = treeHeight * 0.55;
+    const inner = outer * 0.45;
+    const a = random() * Math.PI * 2;
+    // Interpolate between the outer tip and inner notch radii within each spike
+    const seg = (a / (Math.PI / points)) % 2;
+    const k = seg < 1 ? seg : 2 - seg;
+    const edge = outer + (inner - outer) * k;
+    const r = edge * Math.sqrt(0.2 + random() * 0.8);
+    return out.set(Math.sin(a) * r, Math.cos(a) * r, (random() - 0.5) * 2);
+  },
+});
+
+// Evenly spaced halo lying around the vertical axis
+registerFormation({
+  id: 'ring',
+  label: 'Ring',
+  position: ({ index, count, random }, out, { treeRadius }) => {
+    const a = (index / Math.max(count, 1)) * Math.PI * 2;
+    const r = treeRadius * 1.6 + (random() - 0.5) * 1.5;
+    return out.set(Math.cos(a) * r, (random() - 0.5) * 1.2, Math.sin(a) * r);
+  },
+});
+
+// Thick torus facing the camera
+registerFormation({
+  id: 'wreath',
+  label: 'Wreath',
+  position: ({ index, count, random }, out, { treeRadius }) => {
+    const major = treeRadius * 1.3;
+    const minor = 2.2 * Math.sqrt(random());
+    const u = (index / Math.max(count, 1)) * Math.PI * 2 + random() * 0.05;
+    const v = random() * Math.PI * 2;
+    const r = major + minor * Math.cos(v);
+    return out.set(Math.cos(u) * r, Math.sin(u) * r, minor * Math.sin(v));
+  },
+  topper: ({ treeRadius }) => new THREE.Vector3(0, treeRadius * 1.3 + 3.5, 0),
+});
+
+// Flat disc with three logarithmic arms, tilted towards the viewer
+registerFormation({
+  id: 'galaxy',
+  label: 'Galaxy',
+  position: ({ index, random }, out, { treeRadius }) => {
+    const arms = 3;
+    const d = Math.pow(random(), 0.6);
+    const r = 0.8 + d * treeRadius * 2;
+    const a = (index % arms) * ((Math.PI * 2) / arms) + d * Math.PI * 2.5 + (random() - 0.5) * 0.6;
+    const x = Math.cos(a) * r;
+    const z = Math.sin(a) * r;
+    const y = (random() - 0.5) * (1.5 - d);
+    // Tilt the disc by ~35 degrees around X
+    const tilt = 0.6;
+    return out.set(x, y * Math.cos(tilt) - z * Math.sin(tilt), y * Math.sin(tilt) + z * Math.cos(tilt));
+  },
+  topper: () => new THREE.Vector3(0, 0, 0),
+});
+
+// Three stacked spheres, populated in proportion to their surface area
+registerFormation({
+  id: 'snowman',
+  label: 'Snowman',
+  position: ({ random }, out, { treeHeight }) => {
+    const unit = treeHeight / 24;
+    const balls = [
+      { r: 5 * unit, y: -7 * unit },
+      { r: 3.6 * unit, y: 1 * unit },
+      { r: 2.6 * unit, y: 6.8 * unit },
+    ];
+    const total = balls.reduce((sum, b) => sum + b.r * b.r, 0);
+    let pick = random() * total;
+    let ball = balls[balls.length - 1];
+    for (const b of balls) {
+      if (pick < b.r * b.r) { ball = b; break; }
+      pick -= b.r * b.r;
+    }
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos(2 * random() - 1);
+    const r = ball.r * (0.9 + random() * 0.15);
+    return out.set(
+      r * Math.sin(phi) * Math.cos(theta),
+      ball.y + r * Math.cos(phi),
+      r * Math.sin(phi) * Math.sin(theta)
+    );
+  },
+  topper: ({ treeHeight }) => new THREE.Vector3(0, (treeHeight / 24) * 10.5, 0),
+});
@@ -0,0 +1,226 @@
+import * as THREE from 'three';
+import { LightPattern, ParticleConfig } from '../types';
+
+// --- Light Strings ---
+// Garlands spiral around the 'tree' formation's cone with a string of bulbs along each one.
+// Both are rebuilt from a path every frame: wrapped, the path follows the cone; unwrapped it
+// becomes a loose ribbon drifting around the scattered cloud. Blending between the two from
+// the bottom up makes the strings unravel and re-wrap. Bulbs are unlit and skip tone mapping,
+// so colours pushed above 1 reach the bloom pass.
+
+export interface LightStringsConfig {
+  strands: number;
+  /** Turns each strand makes around the cone. */
+  turns: number;
+  /** Path points per strand; the garland has two vertices per point. */
+  segments: number;
+  bulbsPerStrand: number;
+  bulbRadius: number;
+  garlandWidth: number;
+  /** Distance from the cone axis relative to the formation's radius at that height. */
+  wrapRadius: number;
+  /** Fraction of the wrap/unwrap transition covered per second. */
+  wrapSpeed: number;
+  /** Bulb colour multiplier at full brightness (above 1 glows under bloom). */
+  glow: number;
+}
+
+export const DEFAULT_LIGHT_STRINGS_CONFIG: LightStringsConfig = {
+  strands: 2,
+  turns: 5,
+  segments: 240,
+  bulbsPerStrand: 90,
+  bulbRadius: 0.14,
+  garlandWidth: 0.35,
+  wrapRadius: 1.15,
+  wrapSpeed: 0.6,
+  glow: 2.5,
+};
+
+export const LIGHT_PATTERNS: { id: LightPattern; label: string }[] = [
+  { id: 'twinkle', label: 'Twinkle' },
+  { id: 'chase', label: 'Chase' },
+  { id: 'fade', label: 'Fade' },
+  { id: 'rainbow', label: 'Rainbow' },
+  { id: 'theme', label: 'Theme' },
+];
+
+// Old-fashioned fairy lights, used by every pattern except rainbow and theme
+const CLASSIC_COLORS = [0xff3b30, 0xffc400, 0x34c759, 0x0a84ff, 0xff9f0a];
+const WARM_WHITE = 0xffe2b0;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export class LightStrings {
+  readonly config: LightStringsConfig;
+  readonly object = new THREE.Group();
+
+  private garlands: THREE.Mesh[] = [];
+  private garlandMaterial: THREE.MeshStandardMaterial;
+  private bulbs: THREE.InstancedMesh;
+  private bulbSeeds: Float32Array;
+  private pattern: LightPattern = 'twinkle';
+  private palette: THREE.Color[] = [new THREE.Color(WARM_WHITE)];
+  private classic = CLASSIC_COLORS.map(c => new THREE.Color(c));
+  private warmWhite = new THREE.Color(WARM_WHITE);
+  private wrap = 0;
+  private phase = 0;
+  private point = new THREE.Vector3();
+  private ribbon = new THREE.Vector3();
+  private color = new THREE.Color();
+  private matrix = new THREE.Matrix4();
+
+  constructor(config: Partial<LightStringsConfig> = {}) {
+    this.config = { ...DEFAULT_LIGHT_STRINGS_CONFIG, ...config };
+    const { strands, segments, bulbsPerStrand, bulbRadius } = this.config;
+
+    this.garlandMaterial = new THREE.MeshStandardMaterial({
+      metalness: 0.9,
+      roughness: 0.35,
+      side: THREE.DoubleSide,
+      emissiveIntensity: 0.25,
+    });
+    for (let s = 0; s < strands; s++) {
+      const geometry = new THREE.BufferGeometry();
+      const position = new THREE.BufferAttribute(new Float32Array(segments * 2 * 3), 3);
+      position.setUsage(THREE.DynamicDrawUsage);
+      geometry.setAttribute('position', position);
+      // Two triangles between each pair of path points
+      const index: number[] = [];
+      for (let i = 0; i < segments - 1; i++) {
+        const a = i * 2;
+        index.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+      }
+      geometry.setIndex(index);
+      const garland = new THREE.Mesh(geometry, this.garlandMaterial);
+      garland.frustumCulled = false;
+      this.garlands.push(garland);
+      this.object.add(garland);
+    }
+
+    const bulbCount = strands * bulbsPerStrand;
+    this.bulbs = new THREE.InstancedMesh(
+      new THREE.SphereGeometry(bulbRadius, 8, 6),
+      new THREE.MeshBasicMaterial({ toneMapped: false }),
+      bulbCount
+    );
+    this.bulbs.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    this.bulbs.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(bulbCount * 3), 3);
+    this.bulbs.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    this.bulbs.frustumCulled = false;
+    this.object.add(this.bulbs);
+    this.bulbSeeds = Float32Array.from({ length: bulbCount }, () => Math.random());
+  }
+
+  setPattern(pattern: LightPattern) {
+    this.pattern = pattern;
+  }
+
+  /** Colours used by the 'theme' pattern, and the garland's tinsel colour. */
+  setColors(palette: number[], garland: number) {
+    this.palette = palette.map(c => new THREE.Color(c));
+    this.garlandMaterial.color.setHex(garland);
+    this.garlandMaterial.emissive.setHex(garland);
+  }
+
+  /**
+   * `wrapped` wraps the strings around a cone of the given tree size, otherwise they drift
+   * as ribbons. `speed` scales how fast the light pattern runs.
+   */
+  update(dt: number, time: number, wrapped: boolean, config: ParticleConfig, speed: number) {
+    const { strands, segments, bulbsPerStrand, garlandWidth, wrapSpeed } = this.config;
+    const target = wrapped ? 1 : 0;
+    this.wrap += THREE.MathUtils.clamp(target - this.wrap, -wrapSpeed * dt, wrapSpeed * dt);
+    this.phase += dt * speed;
+
+    const half = garlandWidth / 2;
+    for (let s = 0; s < strands; s++) {
+      const position = this.garlands[s].geometry.attributes.position as THREE.BufferAttribute;
+      const array = position.array as Float32Array;
+      for (let i = 0; i < segments; i++) {
+        const p = this.pathPoint(s, i / (segments - 1), time, config);
+        const o = i * 6;
+        array[o] = array[o + 3] = p.x;
+        array[o + 1] = p.y - half;
+        array[o + 4] = p.y + half;
+        array[o + 2] = array[o + 5] = p.z;
+      }
+      position.needsUpdate = true;
+      this.garlands[s].geometry.computeVertexNormals();
+
+      for (let b = 0; b < bulbsPerStrand; b++) {
+        const n = s * bulbsPerStrand + b;
+        const p = this.pathPoint(s, (b + 0.5) / bulbsPerStrand, time, config);
+        this.matrix.makeTranslation(p.x, p.y - half, p.z);
+        this.bulbs.setMatrixAt(n, this.matrix);
+        this.bulbs.setColorAt(n, this.bulbColor(n, b));
+      }
+    }
+    this.bulbs.instanceMatrix.needsUpdate = true;
+    if (this.bulbs.instanceColor) this.bulbs.instanceColor.needsUpdate = true;
+  }
+
+  dispose() {
+    this.garlands.forEach(g => g.geometry.dispose());
+    this.garlandMaterial.dispose();
+    this.bulbs.geometry.dispose();
+    (this.bulbs.material as THREE.Material).dispose();
+    this.bulbs.dispose();
+    this.object.removeFromParent();
+  }
+
+  /** Point `u` (0 at the bottom, 1 at the top) of strand `s`, between ribbon and spiral. */
+  private pathPoint(s: number, u: number, time: number, { treeHeight, treeRadius }: ParticleConfig) {
+    const { strands, turns, wrapRadius } = this.config;
+    const offset = (s / strands) * Math.PI * 2;
+
+    // Same cone as the 'tree' formation
+    const r = Math.max(treeRadius * (1 - u), 0.5) * wrapRadius;
+    const angle = u * turns * Math.PI * 2 + offset;
+    this.point.set(Math.cos(angle) * r, u * treeHeight - treeHeight / 2, Math.sin(angle) * r);
+
+    // A loose loop through the scattered cloud, waving slowly
+    const ribbonAngle = u * Math.PI * 3 + offset + time * 0.1;
+    const ribbonR = 18 + 3 * Math.sin(u * Math.PI * 4 + s);
+    this.ribbon.set(
+      Math.cos(ribbonAngle) * ribbonR,
+      (u - 0.5) * 20 + 3 * Math.sin(u * Math.PI * 6 + time * 0.8 + s * 2),
+      Math.sin(ribbonAngle) * ribbonR
+    );
+
+    // The bottom wraps first and unravels last
+    const blend = smoothstep(THREE.MathUtils.clamp(this.wrap * 1.5 - u * 0.5, 0, 1));
+    return this.point.lerp(this.ribbon, 1 - blend);
+  }
+
+  private bulbColor(n: number, b: number): THREE.Color {
+    const { glow } = this.config;
+    const seed = this.bulbSeeds[n];
+    const t = this.phase;
+    let brightness = 1;
+
+    switch (this.pattern) {
+      case 'twinkle':
+        this.color.copy(this.warmWhite);
+        brightness = 0.25 + 0.75 * Math.pow(0.5 + 0.5 * Math.sin(t * 2.5 + seed * 40), 3);
+        break;
+      case 'chase':
+        this.color.copy(this.classic[b % this.classic.length]);
+        brightness = (b - Math.floor(t * 8)) % 4 === 0 ? 1 : 0.15;
+        break;
+      case 'fade':
+        // Odd and even bulbs breathe in turn
+        this.color.copy(this.classic[b % this.classic.length]);
+        brightness = 0.15 + 0.85 * (0.5 + 0.5 * Math.sin(t * 1.5 + (b % 2) * Math.PI));
+        break;
+      case 'rainbow':
+        this.color.setHSL((b / this.config.bulbsPerStrand + t * 0.1) % 1, 1, 0.55);
+        break;
+      case 'theme':
+        this.color.copy(this.palette[b % this.palette.length]);
+        brightness = 0.8 + 0.2 * Math.sin(t * 2 + seed * 20);
+        break;
+    }
+    return this.color.multiplyScalar(brightness * glow);
+  }
+}
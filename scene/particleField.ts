@@ -0,0 +1,290 @@
+import * as THREE from 'three';
+import { AppMode, ParticleConfig } from '../types';
+import { Formation, getFormation, scatterPosition, seededRandom } from './formations';
+
+// --- Instanced Particle Field ---
+// Ornaments and dust are drawn through one InstancedMesh per type. Per-particle state lives in
+// flat typed arrays (xyz triplets) and the instance matrices are written directly each frame,
+// so the per-frame cost is a single tight loop instead of thousands of Object3D updates.
+
+export type OrnamentType = 'BOX' | 'GOLD_BOX' | 'GOLD_SPHERE' | 'RED' | 'CANE' | 'DUST';
+
+export interface ParticleBatch {
+  type: OrnamentType;
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  count: number;
+  isDust: boolean;
+  /** Uniform scale of each instance at rest. */
+  baseScale: () => number;
+  /** Start with a random orientation (ornaments) or upright (dust). */
+  randomRotation: boolean;
+}
+
+interface BatchRange {
+  mesh: THREE.InstancedMesh;
+  start: number;
+  end: number;
+  /** End of the instances currently drawn (dust can be thinned out for performance). */
+  visibleEnd: number;
+  isDust: boolean;
+}
+
+export class ParticleField {
+  readonly object = new THREE.Group();
+  readonly count: number;
+  /** Number of non-dust particles, i.e. those that take a slot in a formation. */
+  readonly shapedCount: number;
+
+  private ranges: BatchRange[] = [];
+  private seeds: Float64Array;
+  private slots: Uint32Array;
+  private posFormation: Float32Array;
+  private posScatter: Float32Array;
+  private posText: Float32Array;
+  private position: Float32Array;
+  private rotation: Float32Array;
+  private spinSpeed: Float32Array;
+  private baseScale: Float32Array;
+  private scale: Float32Array;
+  /** Twinkle phase, advanced faster while the music has treble. */
+  private twinklePhase = 0;
+
+  constructor(batches: ParticleBatch[], config: ParticleConfig) {
+    this.count = batches.reduce((sum, b) => sum + b.count, 0);
+    this.shapedCount = batches.filter(b => !b.isDust).reduce((sum, b) => sum + b.count, 0);
+
+    const n = this.count;
+    this.seeds = new Float64Array(n);
+    this.slots = new Uint32Array(n);
+    this.posFormation = new Float32Array(n * 3);
+    this.posScatter = new Float32Array(n * 3);
+    this.posText = new Float32Array(n * 3);
+    this.position = new Float32Array(n * 3);
+    this.rotation = new Float32Array(n * 3);
+    this.spinSpeed = new Float32Array(n * 3);
+    this.baseScale = new Float32Array(n);
+    this.scale = new Float32Array(n);
+
+    // Shuffle formation slots so index-driven formations (ring, wreath) mix the ornament types
+    const shapedSlots = Array.from({ length: this.shapedCount }, (_, i) => i);
+    for (let i = shapedSlots.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shapedSlots[i], shapedSlots[j]] = [shapedSlots[j], shapedSlots[i]];
+    }
+
+    const tree = getFormation('tree');
+    const tmp = new THREE.Vector3();
+    let offset = 0;
+    let shaped = 0;
+
+    batches.forEach(batch => {
+      const mesh = new THREE.InstancedMesh(batch.geometry, batch.material, batch.count);
+      mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+      // Instances travel far outside the geometry's bounds, so skip per-mesh culling
+      mesh.frustumCulled = false;
+      this.object.add(mesh);
+      this.ranges.push({ mesh, start: offset, end: offset + batch.count, visibleEnd: offset + batch.count, isDust: batch.isDust });
+
+      for (let i = offset; i < offset + batch.count; i++) {
+        this.seeds[i] = Math.random();
+        if (!batch.isDust) this.slots[i] = shapedSlots[shaped++];
+
+        tree.position({ index: 0, count: 1, random: seededRandom(this.seeds[i]) }, tmp, config);
+        tmp.toArray(this.posFormation, i * 3);
+        scatterPosition(tmp, batch.isDust).toArray(this.posScatter, i * 3);
+
+        const s = batch.baseScale();
+        this.baseScale[i] = s;
+        this.scale[i] = s;
+
+        if (batch.randomRotation) {
+          this.rotation[i * 3] = Math.random() * 6;
+          this.rotation[i * 3 + 1] = Math.random() * 6;
+          this.rotation[i * 3 + 2] = Math.random() * 6;
+        }
+        for (let k = 0; k < 3; k++) this.spinSpeed[i * 3 + k] = (Math.random() - 0.5) * 2.0;
+      }
+      offset += batch.count;
+    });
+  }
+
+  /** Places the shaped particles into slots [offset, offset + shapedCount) of a `total`-slot formation. */
+  assignFormation(formation: Formation, offset: number, total: number, config: ParticleConfig) {
+    const tmp = new THREE.Vector3();
+    this.ranges.forEach(range => {
+      if (range.isDust) return;
+      for (let i = range.start; i < range.end; i++) {
+        formation.position(
+          { index: offset + this.slots[i], count: total, random: seededRandom(this.seeds[i]) },
+          tmp,
+          config
+        );
+        tmp.toArray(this.posFormation, i * 3);
+      }
+    });
+  }
+
+  /**
+   * Spreads every particle, dust included, over the greeting's sampled points (xyz triplets).
+   * Without points the particles fall back to their scatter positions.
+   */
+  setTextTargets(points: Float32Array) {
+    const pointCount = points.length / 3;
+    if (pointCount === 0) {
+      this.posText.set(this.posScatter);
+      return;
+    }
+    for (let i = 0; i < this.count; i++) {
+      const random = seededRandom(this.seeds[i] + 0.5);
+      const p = Math.floor(random() * pointCount) * 3;
+      // A little depth and jitter so the letters read as a cloud rather than a flat stencil
+      this.posText[i * 3] = points[p] + (random() - 0.5) * 0.2;
+      this.posText[i * 3 + 1] = points[p + 1] + (random() - 0.5) * 0.2;
+      this.posText[i * 3 + 2] = points[p + 2] + (random() - 0.5) * 1.2;
+    }
+  }
+
+  /** Draws only the first `fraction` of every dust batch. */
+  setDustFraction(fraction: number) {
+    this.ranges.forEach(range => {
+      if (!range.isDust) return;
+      range.visibleEnd = range.start + Math.round((range.end - range.start) * THREE.MathUtils.clamp(fraction, 0, 1));
+      range.mesh.count = range.visibleEnd - range.start;
+    });
+  }
+
+  /** Swaps a shared geometry (e.g. a lower-detail sphere) on every batch that uses it. */
+  replaceGeometry(from: THREE.BufferGeometry, to: THREE.BufferGeometry) {
+    this.ranges.forEach(({ mesh }) => {
+      if (mesh.geometry === from) mesh.geometry = to;
+    });
+  }
+
+  /**
+   * Knocks the ornaments away from the centre by up to `strength` units. They ease back to
+   * their targets on their own, so this reads as a brief scatter-and-return.
+   */
+  pulse(strength: number) {
+    const pos = this.position;
+    this.ranges.forEach(({ start, end, isDust }) => {
+      if (isDust) return;
+      for (let i = start; i < end; i++) {
+        const i3 = i * 3;
+        const x = pos[i3], z = pos[i3 + 2];
+        const r = Math.hypot(x, z);
+        const angle = r > 0.01 ? Math.atan2(z, x) : this.seeds[i] * Math.PI * 2;
+        const push = strength * (0.5 + this.seeds[i]);
+        pos[i3] += Math.cos(angle) * push;
+        pos[i3 + 1] += (this.seeds[i] - 0.5) * push * 0.5;
+        pos[i3 + 2] += Math.sin(angle) * push;
+      }
+    });
+  }
+
+  /**
+   * Shifts the ornaments by (dx, dz), more for some than others. Applied every frame, e.g. as
+   * wind, this holds them offset against the pull back to their targets.
+   */
+  blow(dx: number, dz: number) {
+    const pos = this.position;
+    this.ranges.forEach(({ start, end, isDust }) => {
+      if (isDust) return;
+      for (let i = start; i < end; i++) {
+        const k = 0.5 + this.seeds[i];
+        pos[i * 3] += dx * k;
+        pos[i * 3 + 2] += dz * k;
+      }
+    });
+  }
+
+  /** `twinkle` (0..1, e.g. the music's treble) makes the dust twinkle faster and deeper. */
+  update(dt: number, mode: AppMode, twinkle = 0) {
+    // Ornaments are never the focus target, so FOCUS behaves like SCATTER with shrunken particles.
+    // GREETING holds still like TREE but lets the dust fill in the letters.
+    const assembled = mode === 'TREE';
+    const settled = assembled || mode === 'GREETING';
+    const target = assembled ? this.posFormation : mode === 'GREETING' ? this.posText : this.posScatter;
+    const moveT = 1.8 * dt;
+    const scaleT = 3.0 * dt;
+    const pos = this.position;
+    const rot = this.rotation;
+    this.twinklePhase += dt * (3 + 9 * twinkle);
+    // Stays below 0.8 so dust never shrinks through zero
+    const twinkleDepth = 0.5 + 0.25 * twinkle;
+
+    this.ranges.forEach(({ mesh, start, visibleEnd, isDust }) => {
+      const m = mesh.instanceMatrix.array as Float32Array;
+
+      for (let i = start; i < visibleEnd; i++) {
+        const i3 = i * 3;
+
+        // Smooth movement interpolation (Luxury Feel = slower, heavier)
+        pos[i3] += (target[i3] - pos[i3]) * moveT;
+        pos[i3 + 1] += (target[i3 + 1] - pos[i3 + 1]) * moveT;
+        pos[i3 + 2] += (target[i3 + 2] - pos[i3 + 2]) * moveT;
+
+        // Rotation
+        if (settled) {
+          rot[i3] += (0 - rot[i3]) * dt;
+          rot[i3 + 1] += 0.5 * dt;
+          rot[i3 + 2] += (0 - rot[i3 + 2]) * dt;
+        } else {
+          rot[i3] += this.spinSpeed[i3] * dt;
+          rot[i3 + 1] += this.spinSpeed[i3 + 1] * dt;
+          rot[i3 + 2] += this.spinSpeed[i3 + 2] * dt;
+        }
+
+        // Scale Logic
+        let s = this.baseScale[i];
+        if (isDust) {
+          // Twinkle dust, hidden in tree mode for a clean look
+          s = assembled ? 0 : s * (0.8 + twinkleDepth * Math.sin(this.twinklePhase + this.seeds[i] * 10));
+        } else if (mode === 'FOCUS') {
+          s *= 0.5;
+        } else if (mode === 'GREETING') {
+          s *= 0.6; // Smaller ornaments keep the letters legible
+        }
+        this.scale[i] += (s - this.scale[i]) * scaleT;
+
+        writeMatrix(m, (i - start) * 16, pos[i3], pos[i3 + 1], pos[i3 + 2], rot[i3], rot[i3 + 1], rot[i3 + 2], this.scale[i]);
+      }
+      mesh.instanceMatrix.needsUpdate = true;
+    });
+  }
+
+  dispose() {
+    this.ranges.forEach(({ mesh }) => mesh.dispose());
+    this.object.removeFromParent();
+  }
+}
+
+/** Column-major TRS matrix for an XYZ Euler rotation and uniform scale (same as Matrix4.compose). */
+const writeMatrix = (
+  te: Float32Array, o: number,
+  px: number, py: number, pz: number,
+  rx: number, ry: number, rz: number,
+  s: number
+) => {
+  const a = Math.cos(rx), b = Math.sin(rx);
+  const c = Math.cos(ry), d = Math.sin(ry);
+  const e = Math.cos(rz), f = Math.sin(rz);
+  const ae = a * e, af = a * f, be = b * e, bf = b * f;
+
+  te[o] = c * e * s;
+  te[o + 1] = (af + be * d) * s;
+  te[o + 2] = (bf - ae * d) * s;
+  te[o + 3] = 0;
+  te[o + 4] = -c * f * s;
+  te[o + 5] = (ae - bf * d) * s;
+  te[o + 6] = (be + af * d) * s;
+  te[o + 7] = 0;
+  te[o + 8] = d * s;
+  te[o + 9] = -b * c * s;
+  te[o + 10] = a * c * s;
+  te[o + 11] = 0;
+  te[o + 12] = px;
+  te[o + 13] = py;
+  te[o + 14] = pz;
+  te[o + 15] = 1;
+};
@@ -0,0 +1,242 @@
+import * as THREE from 'three';
+import { FrameStyle, PhotoCrop } from '../types';
+
+// --- Photo Frames ---
+// Builds the frame around a photo in one of several styles, sized to the photo's own aspect
+// ratio (or cropped to a square around a chosen point). Geometry is unit-sized and shared, so
+// a frame is a few scaled meshes; materials are shared per style. Only a polaroid's caption
+// owns its material, and releaseFrame frees it. The photo's material belongs to the caller.
+
+export const FRAME_STYLES: { id: FrameStyle; label: string }[] = [
+  { id: 'gold', label: 'Gold' },
+  { id: 'silver', label: 'Silver' },
+  { id: 'wood', label: 'Wood' },
+  { id: 'polaroid', label: 'Polaroid' },
+  { id: 'glass', label: 'Glass Bauble' },
+];
+
+export interface PhotoFramesConfig {
+  /** Longest side of a framed photo, in the frame's units. */
+  photoSize: number;
+  /** Border of the metal and wooden frames. */
+  border: number;
+  frameDepth: number;
+  /** Border of a polaroid around the top and sides of the photo... */
+  polaroidBorder: number;
+  /** ...and the caption strip below it. */
+  polaroidStrip: number;
+  /** Radius of the glass bauble around a round photo. */
+  glassRadius: number;
+}
+
+export const DEFAULT_PHOTO_FRAMES_CONFIG: PhotoFramesConfig = {
+  photoSize: 1.2,
+  border: 0.1,
+  frameDepth: 0.05,
+  polaroidBorder: 0.08,
+  polaroidStrip: 0.36,
+  glassRadius: 0.78,
+};
+
+/** Everything that decides how a photo is framed. */
+export interface FrameLook {
+  style: FrameStyle;
+  crop: PhotoCrop | null;
+  caption: string;
+}
+
+export interface BuiltFrame {
+  /** Frame parts and the photo, centred on the photo. */
+  object: THREE.Group;
+  /** Height of the frame's top edge above the photo's centre, where a hanger attaches. */
+  top: number;
+}
+
+const CENTRE: PhotoCrop = { x: 0.5, y: 0.5 };
+
+/** Width over height of a texture's image (video frames included); 1 until it is known. */
+export const textureAspect = (texture: THREE.Texture | null): number => {
+  const image = texture?.image as { width?: number; height?: number; videoWidth?: number; videoHeight?: number } | undefined;
+  const width = image?.videoWidth || image?.width || 0;
+  const height = image?.videoHeight || image?.height || 0;
+  return width > 0 && height > 0 ? width / height : 1;
+};
+
+/** Identifies a look at a given aspect ratio, to tell when a frame needs rebuilding. */
+export const lookKey = ({ style, crop, caption }: FrameLook, aspect: number) =>
+  `${style}|${crop ? `${crop.x.toFixed(3)},${crop.y.toFixed(3)}` : '-'}|${caption}|${aspect.toFixed(3)}`;
+
+/** Shows the square of the texture around `crop`, or all of it for null. */
+const applyCrop = (texture: THREE.Texture, aspect: number, crop: PhotoCrop | null) => {
+  if (!crop) {
+    texture.repeat.set(1, 1);
+    texture.offset.set(0, 0);
+  } else if (aspect > 1) {
+    texture.repeat.set(1 / aspect, 1);
+    texture.offset.set((1 - 1 / aspect) * crop.x, 0);
+  } else {
+    // Texture v runs bottom to top, the crop point top to bottom
+    texture.repeat.set(1, aspect);
+    texture.offset.set(0, (1 - aspect) * (1 - crop.y));
+  }
+};
+
+const createWoodTexture = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 256;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#6b4423';
+    ctx.fillRect(0, 0, 256, 256);
+    // Wavy grain lines of varying weight
+    for (let i = 0; i < 40; i++) {
+      ctx.strokeStyle = `rgba(40, 20, 5, ${0.15 + Math.random() * 0.25})`;
+      ctx.lineWidth = 1 + Math.random() * 3;
+      const y = Math.random() * 256;
+      ctx.beginPath();
+      for (let x = 0; x <= 256; x += 16) ctx.lineTo(x, y + Math.sin(x * 0.03 + i) * 4);
+      ctx.stroke();
+    }
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  return texture;
+};
+
+/** Caption in a handwriting font on a transparent strip `aspect` times wider than tall. */
+const drawCaption = (caption: string, aspect: number): THREE.CanvasTexture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = Math.max(32, Math.round(512 / aspect));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    let size = Math.round(canvas.height * 0.6);
+    const font = () => `${size}px 'Segoe Script', 'Bradley Hand', 'Comic Sans MS', cursive`;
+    ctx.font = font();
+    const width = ctx.measureText(caption).width;
+    if (width > canvas.width * 0.9) size = Math.floor(size * (canvas.width * 0.9) / width);
+    ctx.font = font();
+    ctx.fillStyle = '#2b2b2b';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(caption, canvas.width / 2, canvas.height / 2);
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+export class PhotoFrames {
+  readonly config: PhotoFramesConfig;
+  /** Frame gold, also used for hooks and the glass bauble's cap; follows the theme. */
+  readonly gold: THREE.MeshStandardMaterial;
+
+  private box = new THREE.BoxGeometry(1, 1, 1);
+  private plane = new THREE.PlaneGeometry(1, 1);
+  private disc = new THREE.CircleGeometry(0.5, 48);
+  private sphere = new THREE.SphereGeometry(1, 32, 24);
+  private cap = new THREE.CylinderGeometry(0.08, 0.1, 0.12, 16);
+  private woodTexture = createWoodTexture();
+  private silver: THREE.MeshStandardMaterial;
+  private wood: THREE.MeshStandardMaterial;
+  private polaroid: THREE.MeshStandardMaterial;
+  private glass: THREE.MeshPhysicalMaterial;
+
+  constructor(goldColor: number, config: Partial<PhotoFramesConfig> = {}) {
+    this.config = { ...DEFAULT_PHOTO_FRAMES_CONFIG, ...config };
+    this.gold = new THREE.MeshStandardMaterial({ color: goldColor, metalness: 1.0, roughness: 0.15, envMapIntensity: 2.0 });
+    this.silver = new THREE.MeshStandardMaterial({ color: 0xd8dde3, metalness: 1.0, roughness: 0.22, envMapIntensity: 2.0 });
+    this.wood = new THREE.MeshStandardMaterial({ map: this.woodTexture, metalness: 0, roughness: 0.75 });
+    this.polaroid = new THREE.MeshStandardMaterial({ color: 0xf6f4ee, metalness: 0, roughness: 0.9 });
+    this.glass = new THREE.MeshPhysicalMaterial({
+      color: 0xffffff,
+      metalness: 0,
+      roughness: 0.05,
+      clearcoat: 1,
+      transparent: true,
+      opacity: 0.25,
+      depthWrite: false,
+      envMapIntensity: 2.5,
+    });
+  }
+
+  setGoldColor(color: number) {
+    this.gold.color.setHex(color);
+  }
+
+  /** Frames `photoMaterial` (whose map is cropped to suit) in `look`. */
+  build(photoMaterial: THREE.MeshBasicMaterial, look: FrameLook): BuiltFrame {
+    const { photoSize, border, frameDepth, polaroidBorder, polaroidStrip, glassRadius } = this.config;
+    const aspect = textureAspect(photoMaterial.map);
+    // Round photos in glass are always cropped
+    const crop = look.style === 'glass' ? look.crop ?? CENTRE : look.crop;
+    if (photoMaterial.map) applyCrop(photoMaterial.map, aspect, crop);
+
+    // The longest side is always photoSize
+    let width = photoSize;
+    let height = photoSize;
+    if (!crop && aspect > 1) height = photoSize / aspect;
+    else if (!crop && aspect < 1) width = photoSize * aspect;
+
+    const object = new THREE.Group();
+    const photo = new THREE.Mesh(look.style === 'glass' ? this.disc : this.plane, photoMaterial);
+    photo.scale.set(width, height, 1);
+    photo.userData.isPhoto = true;
+    object.add(photo);
+
+    if (look.style === 'glass') {
+      const shell = new THREE.Mesh(this.sphere, this.glass);
+      shell.scale.setScalar(glassRadius);
+      const cap = new THREE.Mesh(this.cap, this.gold);
+      cap.position.y = glassRadius + 0.04;
+      object.add(shell, cap);
+      return { object, top: glassRadius + 0.1 };
+    }
+
+    if (look.style === 'polaroid') {
+      const depth = frameDepth * 0.6;
+      const card = new THREE.Mesh(this.box, this.polaroid);
+      card.scale.set(width + polaroidBorder * 2, height + polaroidBorder + polaroidStrip, depth);
+      card.position.y = (polaroidBorder - polaroidStrip) / 2;
+      photo.position.z = depth / 2 + 0.005;
+      object.add(card);
+
+      const caption = look.caption.trim();
+      if (caption) {
+        const stripHeight = polaroidStrip * 0.7;
+        const material = new THREE.MeshBasicMaterial({ map: drawCaption(caption, width / stripHeight), transparent: true });
+        const strip = new THREE.Mesh(this.plane, material);
+        strip.scale.set(width, stripHeight, 1);
+        strip.position.set(0, -height / 2 - polaroidStrip / 2, photo.position.z);
+        strip.userData.ownsMaterial = true;
+        object.add(strip);
+      }
+      return { object, top: height / 2 + polaroidBorder };
+    }
+
+    const frame = new THREE.Mesh(this.box, look.style === 'silver' ? this.silver : look.style === 'wood' ? this.wood : this.gold);
+    frame.scale.set(width + border * 2, height + border * 2, frameDepth);
+    photo.position.z = frameDepth / 2 + 0.015;
+    object.add(frame);
+    return { object, top: height / 2 + border };
+  }
+
+  dispose() {
+    [this.box, this.plane, this.disc, this.sphere, this.cap].forEach(g => g.dispose());
+    [this.gold, this.silver, this.wood, this.polaroid, this.glass].forEach(m => m.dispose());
+    this.woodTexture.dispose();
+  }
+}
+
+/** Frees what a built frame owns (a polaroid's caption); shared parts and the photo stay. */
+export const releaseFrame = (object: THREE.Object3D) => {
+  object.traverse((obj: THREE.Object3D) => {
+    if (obj instanceof THREE.Mesh && obj.userData.ownsMaterial) {
+      obj.material.map?.dispose();
+      obj.material.dispose();
+    }
+  });
+};
@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { ParticleConfig, PhotoPlacement } from '../types';
+
+// --- Photo Ornaments ---
+// Photos hung on the 'tree' formation are spread evenly over the outside of its cone, facing
+// outward, instead of taking random slots among the baubles (where they end up inside the
+// cone or edge-on). Each hangs from a hook by a short ribbon and sways like a pendulum.
+// Slots depend only on the photo count, so adding or removing one rebalances the rest.
+
+export interface PhotoOrnamentConfig {
+  /** Part of the cone photos hang on: 0 is the tip, 1 the base. */
+  bandTop: number;
+  bandBottom: number;
+  /** Distance of a photo from the axis relative to the cone's radius at its height. */
+  surfaceOffset: number;
+  /** Length of the ribbon above the frame, in the frame's units (frames are up to 1.4 tall). */
+  ribbonLength: number;
+  /** Largest sway angle in radians. */
+  swayAngle: number;
+  /** Sway frequency in radians per second. */
+  swaySpeed: number;
+}
+
+export const DEFAULT_PHOTO_ORNAMENT_CONFIG: PhotoOrnamentConfig = {
+  bandTop: 0.2,
+  bandBottom: 0.92,
+  surfaceOffset: 1.1,
+  ribbonLength: 0.6,
+  swayAngle: 0.12,
+  swaySpeed: 1.3,
+};
+
+export const PHOTO_PLACEMENTS: { id: PhotoPlacement; label: string }[] = [
+  { id: 'hung', label: 'Hung on Tree' },
+  { id: 'mixed', label: 'Among Ornaments' },
+];
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/** Where photo `index` of `count` hangs: its hook on the cone, and the way it faces. */
+export interface HangingSlot {
+  hook: THREE.Vector3;
+  /** Rotation about the vertical axis that turns the photo's front outward. */
+  yaw: number;
+}
+
+export const hangingSlot = (
+  index: number,
+  count: number,
+  { treeHeight, treeRadius }: ParticleConfig,
+  out: HangingSlot,
+  config: PhotoOrnamentConfig = DEFAULT_PHOTO_ORNAMENT_CONFIG
+): HangingSlot => {
+  const { bandTop, bandBottom, surfaceOffset } = config;
+  // The cone's surface grows with the square of the distance from the tip, so spacing the
+  // squares evenly gives every photo the same area; the golden angle spreads them around
+  const a = bandTop * bandTop;
+  const b = bandBottom * bandBottom;
+  const t = Math.sqrt(a + (b - a) * ((index + 0.5) / Math.max(1, count)));
+  const angle = index * GOLDEN_ANGLE;
+  const r = treeRadius * t * surfaceOffset;
+
+  out.hook.set(Math.cos(angle) * r, treeHeight / 2 - t * treeHeight, Math.sin(angle) * r);
+  out.yaw = Math.atan2(out.hook.x, out.hook.z);
+  return out;
+};
+
+/**
+ * Position of a frame's centre hanging from `hook`, rotated `yaw` and swinging `sway` radians
+ * about the hook, for a frame drawn at `scale` whose top edge is `frameTop` above its centre.
+ */
+export const hangingPosition = (
+  out: THREE.Vector3,
+  hook: THREE.Vector3,
+  yaw: number,
+  sway: number,
+  scale: number,
+  frameTop: number,
+  config: PhotoOrnamentConfig = DEFAULT_PHOTO_ORNAMENT_CONFIG
+) => {
+  const drop = (frameTop + config.ribbonLength) * scale;
+  // The centre swings sideways in the photo's own plane
+  const side = Math.sin(sway) * drop;
+  return out.set(
+    hook.x + Math.cos(yaw) * side,
+    hook.y - Math.cos(sway) * drop,
+    hook.z - Math.sin(yaw) * side
+  );
+};
+
+/** Shared geometry and materials for the hook and ribbon every hung photo gets. */
+export interface HangerAssets {
+  ribbonGeometry: THREE.BufferGeometry;
+  hookGeometry: THREE.BufferGeometry;
+  ribbonMaterial: THREE.MeshStandardMaterial;
+  hookMaterial: THREE.Material;
+}
+
+export const createHangerAssets = (
+  ribbonColor: number,
+  hookMaterial: THREE.Material,
+  config: PhotoOrnamentConfig = DEFAULT_PHOTO_ORNAMENT_CONFIG
+): HangerAssets => ({
+  ribbonGeometry: new THREE.PlaneGeometry(0.12, config.ribbonLength),
+  hookGeometry: new THREE.TorusGeometry(0.1, 0.025, 6, 16),
+  ribbonMaterial: new THREE.MeshStandardMaterial({ color: ribbonColor, roughness: 0.5, side: THREE.DoubleSide }),
+  hookMaterial,
+});
+
+/**
+ * Ribbon and hook above a frame whose top edge is `frameTop` above its centre, in the frame's
+ * space; hidden until the photo hangs.
+ */
+export const createHanger = (
+  { ribbonGeometry, hookGeometry, ribbonMaterial, hookMaterial }: HangerAssets,
+  frameTop: number,
+  config: PhotoOrnamentConfig = DEFAULT_PHOTO_ORNAMENT_CONFIG
+): THREE.Group => {
+  const ribbon = new THREE.Mesh(ribbonGeometry, ribbonMaterial);
+  ribbon.position.y = frameTop + config.ribbonLength / 2;
+  const hook = new THREE.Mesh(hookGeometry, hookMaterial);
+  hook.position.y = frameTop + config.ribbonLength + 0.08;
+
+  const hanger = new THREE.Group();
+  hanger.add(ribbon, hook);
+  hanger.visible = false;
+  hanger.userData.isHanger = true;
+  return hanger;
+};
@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+import { decodeImage } from '../services/imagePipeline';
+
+// --- Photo Textures ---
+// Memories are decoded straight to the size they are drawn at. Every photo gets an equal share
+// of a fixed GPU memory budget, capped at `maxEdge`, so a large album costs sharpness instead
+// of exhausting memory. The bytes actually allocated are tracked: a new photo never takes more
+// than what is left, and as the album grows the photos already loaded are decoded again at
+// their smaller share. Decoding and resizing happen off the main thread (createImageBitmap).
+
+export interface PhotoTextureConfig {
+  /** GPU memory shared by all photo textures, in megabytes (mipmaps included). */
+  budgetMB: number;
+  /** Longest side of a photo texture, however few photos there are. */
+  maxEdge: number;
+  /** Longest side a photo is never shrunk below, however many photos there are. */
+  minEdge: number;
+}
+
+export const DEFAULT_PHOTO_TEXTURE_CONFIG: PhotoTextureConfig = {
+  budgetMB: 256,
+  maxEdge: 1024,
+  minEdge: 256,
+};
+
+// RGBA8 plus a third for the mipmap chain
+const BYTES_PER_PIXEL = 4 * 4 / 3;
+
+interface LoadedPhoto {
+  url: string;
+  /** Longest side it was decoded for. */
+  edge: number;
+  bytes: number;
+  /** A smaller copy is being decoded. */
+  resizing: boolean;
+}
+
+const bytesOf = (bitmap: ImageBitmap) => bitmap.width * bitmap.height * BYTES_PER_PIXEL;
+
+const decodeUrl = async (url: string, edge: number) => decodeImage(await (await fetch(url)).blob(), edge, true);
+
+export class PhotoTextures {
+  readonly config: PhotoTextureConfig;
+
+  private photos = new Map<THREE.Texture, LoadedPhoto>();
+  private allocated = 0;
+  // Textures being swapped for a smaller copy, whose dispose event doesn't release them
+  private swapping = new Set<THREE.Texture>();
+
+  constructor(config: Partial<PhotoTextureConfig> = {}) {
+    this.config = { ...DEFAULT_PHOTO_TEXTURE_CONFIG, ...config };
+  }
+
+  /** Longest texture side that keeps `photoCount` square photos within the budget. */
+  edgeFor(photoCount: number): number {
+    const { budgetMB, maxEdge, minEdge } = this.config;
+    const share = (budgetMB * 1024 * 1024) / Math.max(1, photoCount);
+    return THREE.MathUtils.clamp(Math.floor(Math.sqrt(share / BYTES_PER_PIXEL)), minEdge, maxEdge);
+  }
+
+  /** Bytes of GPU memory the loaded photo textures take, mipmaps included. */
+  get allocatedBytes(): number {
+    return this.allocated;
+  }
+
+  /**
+   * Loads `url` as a texture sized for an album of `photoCount` and no larger than the budget
+   * left, shrinking the photos already loaded to their new share. Disposing it frees the bitmap.
+   */
+  async load(url: string, photoCount: number): Promise<THREE.Texture> {
+    const remaining = this.config.budgetMB * 1024 * 1024 - this.allocated;
+    const edge = Math.max(this.config.minEdge, Math.min(this.edgeFor(photoCount), Math.floor(Math.sqrt(Math.max(0, remaining) / BYTES_PER_PIXEL))));
+    const bitmap = await decodeUrl(url, edge);
+    const texture = new THREE.Texture(bitmap);
+    // The bitmap is already flipped; WebGL can't flip ImageBitmaps on upload
+    texture.flipY = false;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.needsUpdate = true;
+    texture.addEventListener('dispose', () => {
+      if (!this.swapping.has(texture)) this.release(texture);
+    });
+
+    this.photos.set(texture, { url, edge, bytes: bytesOf(bitmap), resizing: false });
+    this.allocated += bytesOf(bitmap);
+    this.fit(photoCount);
+    return texture;
+  }
+
+  /** Decodes photos loaded for a smaller album again at the share `photoCount` leaves them. */
+  fit(photoCount: number) {
+    const edge = this.edgeFor(photoCount);
+    this.photos.forEach((photo, texture) => {
+      if (photo.edge > edge && !photo.resizing) this.resize(texture, photo, edge);
+    });
+  }
+
+  private async resize(texture: THREE.Texture, photo: LoadedPhoto, edge: number) {
+    photo.resizing = true;
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await decodeUrl(photo.url, edge);
+    } catch (err) {
+      console.error("Error resizing photo texture:", err);
+      photo.resizing = false;
+      return;
+    }
+    // Skip if the texture was disposed while decoding
+    if (this.photos.get(texture) !== photo) {
+      bitmap.close();
+      return;
+    }
+
+    // Disposing frees the GPU copy; the next render uploads the smaller bitmap in a new one
+    this.swapping.add(texture);
+    texture.dispose();
+    this.swapping.delete(texture);
+    (texture.image as ImageBitmap).close();
+    texture.image = bitmap;
+    texture.needsUpdate = true;
+
+    this.allocated += bytesOf(bitmap) - photo.bytes;
+    photo.bytes = bytesOf(bitmap);
+    photo.edge = edge;
+    photo.resizing = false;
+  }
+
+  private release(texture: THREE.Texture) {
+    const photo = this.photos.get(texture);
+    if (!photo) return;
+    this.photos.delete(texture);
+    this.allocated -= photo.bytes;
+    (texture.image as ImageBitmap).close();
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { QualityGovernor } from './qualityGovernor';
+
+/** Feeds frames of `frameMs` for `durationMs`, starting at `from`; returns the tier ids chosen. */
+const run = (governor: QualityGovernor, frameMs: number, from: number, durationMs: number) => {
+  const changes: string[] = [];
+  for (let t = from; t < from + durationMs; t += frameMs) {
+    const tier = governor.update(frameMs, t);
+    if (tier) changes.push(tier.id);
+  }
+  return changes;
+};
+
+describe('QualityGovernor', () => {
+  it('estimates the refresh rate from the fastest frames', () => {
+    const governor = new QualityGovernor();
+    run(governor, 1000 / 144, 0, 500);
+    run(governor, 1000 / 60, 500, 500);
+    expect(governor.refreshHz).toBeCloseTo(144, 0);
+  });
+
+  it('steps up on a 50 Hz display running at full rate', () => {
+    const governor = new QualityGovernor({ initialTier: 'medium' });
+    expect(run(governor, 20, 0, 10000)).toEqual(['high', 'ultra']);
+  });
+
+  it('steps down when the frame rate falls well below the refresh rate', () => {
+    const governor = new QualityGovernor();
+    run(governor, 1000 / 120, 0, 1000);
+    expect(run(governor, 1000 / 80, 1000, 5000)).toEqual(['medium']);
+  });
+
+  it('stays put on a slow display that keeps up with itself', () => {
+    const governor = new QualityGovernor({ initialTier: 'ultra' });
+    expect(run(governor, 1000 / 30, 0, 10000)).toEqual([]);
+  });
+});
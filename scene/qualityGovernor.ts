@@ -0,0 +1,172 @@
+import { PerformanceStats, QualityTierId } from '../types';
+
+// --- Adaptive Quality ---
+// Render quality comes in tiers. The governor averages frame times over a short window and
+// steps down when the scene can't hold its frame rate, or back up once it has headroom.
+// Frame rates are judged against the display's refresh rate, estimated from the fastest
+// run of frames seen, so a 50 Hz or 144 Hz screen is held to its own pace rather than 60 FPS.
+// Tiers that had to be abandoned are retried with an increasing delay so quality doesn't
+// oscillate on machines that sit right at the edge.
+
+export interface QualityTier {
+  id: QualityTierId;
+  label: string;
+  /** Upper bound for the renderer pixel ratio (the device ratio is used when lower). */
+  pixelRatio: number;
+  bloom: boolean;
+  /** Bloom render target size relative to the canvas. */
+  bloomResolution: number;
+  /** Fraction of the configured dust particles that is drawn. */
+  dustFraction: number;
+  /** Width and height segments of the bauble spheres. */
+  sphereSegments: number;
+  shadows: boolean;
+}
+
+/** Lowest to highest. */
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'low', label: 'Low', pixelRatio: 0.75, bloom: false, bloomResolution: 0.5, dustFraction: 0.25, sphereSegments: 8, shadows: false },
+  { id: 'medium', label: 'Medium', pixelRatio: 1, bloom: true, bloomResolution: 0.5, dustFraction: 0.5, sphereSegments: 16, shadows: false },
+  { id: 'high', label: 'High', pixelRatio: 2, bloom: true, bloomResolution: 1, dustFraction: 1, sphereSegments: 32, shadows: false },
+  { id: 'ultra', label: 'Ultra', pixelRatio: 2, bloom: true, bloomResolution: 1, dustFraction: 1, sphereSegments: 48, shadows: true },
+];
+
+export const getQualityTier = (id: QualityTierId): QualityTier =>
+  QUALITY_TIERS.find(t => t.id === id) ?? QUALITY_TIERS[2];
+
+/** "High · 58 FPS" for status displays. */
+export const formatPerformance = (stats: PerformanceStats | null): string =>
+  stats ? `${getQualityTier(stats.tier).label} · ${stats.fps > 0 ? `${stats.fps} FPS` : '—'}` : '—';
+
+export interface GovernorConfig {
+  /** Tier used until the first measurement. */
+  initialTier: QualityTierId;
+  /** Frame times are averaged over this window before any decision. */
+  windowMs: number;
+  /** Step down when the average frame rate falls below this fraction of the refresh rate. */
+  downshiftRatio: number;
+  /** Step up when the average frame rate stays at or above this fraction of the refresh rate. */
+  upshiftRatio: number;
+  /** Consecutive frames averaged when estimating the refresh rate, which evens out timer jitter. */
+  refreshSampleFrames: number;
+  /** Minimum time between two tier changes, so the new tier can settle. */
+  settleMs: number;
+  /** Delay before retrying a tier that was abandoned; doubles each time it fails again. */
+  retryMs: number;
+  /** Frames longer than this (tab in background, debugger) are ignored. */
+  maxFrameMs: number;
+}
+
+export const DEFAULT_GOVERNOR_CONFIG: GovernorConfig = {
+  initialTier: 'high',
+  windowMs: 2000,
+  downshiftRatio: 0.75,
+  upshiftRatio: 0.95,
+  refreshSampleFrames: 8,
+  settleMs: 3000,
+  retryMs: 15000,
+  maxFrameMs: 250,
+};
+
+export class QualityGovernor {
+  readonly config: GovernorConfig;
+
+  private tierIndex: number;
+  private pinned: number | null = null;
+  private frameTotal = 0;
+  private frameCount = 0;
+  private windowStart = -1;
+  private lastChange = 0;
+  private measuredFps = 0;
+  /** Latest frame times, and the shortest average interval over any run of them so far. */
+  private recentFrames: number[] = [];
+  private recentTotal = 0;
+  private bestIntervalMs = Infinity;
+  /** Per tier: earliest time it may be tried again, and the delay for its next failure. */
+  private retryAt: number[];
+  private retryDelay: number[];
+
+  constructor(config: Partial<GovernorConfig> = {}) {
+    this.config = { ...DEFAULT_GOVERNOR_CONFIG, ...config };
+    this.tierIndex = QUALITY_TIERS.indexOf(getQualityTier(this.config.initialTier));
+    this.retryAt = QUALITY_TIERS.map(() => 0);
+    this.retryDelay = QUALITY_TIERS.map(() => this.config.retryMs);
+  }
+
+  get tier(): QualityTier {
+    return QUALITY_TIERS[this.pinned ?? this.tierIndex];
+  }
+
+  /** Average frame rate of the last complete window. */
+  get fps(): number {
+    return this.measuredFps;
+  }
+
+  /** Estimated display refresh rate; 0 until enough frames have been seen. */
+  get refreshHz(): number {
+    return Number.isFinite(this.bestIntervalMs) ? 1000 / this.bestIntervalMs : 0;
+  }
+
+  /** Fixes the tier (null returns control to the governor). Returns the tier now in effect. */
+  pin(id: QualityTierId | null): QualityTier {
+    this.pinned = id ? QUALITY_TIERS.indexOf(getQualityTier(id)) : null;
+    if (this.pinned !== null) this.tierIndex = this.pinned;
+    this.resetWindow();
+    return this.tier;
+  }
+
+  /**
+   * Records one frame. Returns the new tier when quality should change, otherwise null.
+   * `fps` is refreshed once per window either way.
+   */
+  update(frameMs: number, now: number): QualityTier | null {
+    const { windowMs, downshiftRatio, upshiftRatio, settleMs, maxFrameMs } = this.config;
+    if (frameMs <= 0 || frameMs > maxFrameMs) return null;
+    this.sampleRefresh(frameMs);
+
+    if (this.windowStart < 0) this.windowStart = now;
+    this.frameTotal += frameMs;
+    this.frameCount++;
+    if (now - this.windowStart < windowMs) return null;
+
+    this.measuredFps = 1000 / (this.frameTotal / this.frameCount);
+    this.resetWindow();
+    const refreshHz = this.refreshHz;
+    if (this.pinned !== null || refreshHz === 0 || now - this.lastChange < settleMs) return null;
+
+    let next = this.tierIndex;
+    if (this.measuredFps < refreshHz * downshiftRatio && this.tierIndex > 0) {
+      // Back off from this tier for longer every time it fails
+      this.retryAt[this.tierIndex] = now + this.retryDelay[this.tierIndex];
+      this.retryDelay[this.tierIndex] *= 2;
+      next = this.tierIndex - 1;
+    } else if (
+      this.measuredFps >= refreshHz * upshiftRatio &&
+      this.tierIndex < QUALITY_TIERS.length - 1 &&
+      now >= this.retryAt[this.tierIndex + 1]
+    ) {
+      next = this.tierIndex + 1;
+    }
+
+    if (next === this.tierIndex) return null;
+    this.tierIndex = next;
+    this.lastChange = now;
+    return this.tier;
+  }
+
+  private sampleRefresh(frameMs: number) {
+    const { refreshSampleFrames } = this.config;
+    this.recentFrames.push(frameMs);
+    this.recentTotal += frameMs;
+    if (this.recentFrames.length > refreshSampleFrames) this.recentTotal -= this.recentFrames.shift()!;
+    if (this.recentFrames.length === refreshSampleFrames) {
+      this.bestIntervalMs = Math.min(this.bestIntervalMs, this.recentTotal / refreshSampleFrames);
+    }
+  }
+
+  private resetWindow() {
+    this.frameTotal = 0;
+    this.frameCount = 0;
+    this.windowStart = -1;
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { SceneController, SceneEventType } from './sceneController';
+
+const ALL_EVENTS: SceneEventType[] = ['modeChanged', 'focusChanged', 'photoAdded', 'photoRemoved', 'photosReordered'];
+
+/** Records every event `controller` emits as `[type, payload]`, in order. */
+const record = (controller: SceneController) => {
+  const events: [SceneEventType, unknown][] = [];
+  ALL_EVENTS.forEach(type => controller.on(type, event => events.push([type, event])));
+  return events;
+};
+
+const withPhotos = (ids: string[], mode: 'TREE' | 'SCATTER' = 'TREE') => {
+  const controller = new SceneController(mode);
+  controller.setPhotos(ids);
+  return controller;
+};
+
+describe('FOCUS guard', () => {
+  it('refuses FOCUS without photos and keeps the mode', () => {
+    const controller = new SceneController();
+    const events = record(controller);
+    expect(controller.setMode('FOCUS')).toBe(false);
+    expect(controller.browse(1)).toBe(false);
+    expect(controller.mode).toBe('TREE');
+    expect(controller.focused).toBeNull();
+    expect(events).toEqual([]);
+  });
+
+  it('refuses to focus a photo the scene does not have', () => {
+    const controller = withPhotos(['a', 'b']);
+    expect(controller.focus('z')).toBe(false);
+    expect(controller.mode).toBe('TREE');
+  });
+
+  it('enters FOCUS on the first photo', () => {
+    const controller = withPhotos(['a', 'b']);
+    expect(controller.setMode('FOCUS')).toBe(true);
+    expect(controller.mode).toBe('FOCUS');
+    expect(controller.focused).toBe('a');
+  });
+
+  it('lets go of the focused photo in other modes', () => {
+    const controller = withPhotos(['a', 'b']);
+    controller.focus('b');
+    controller.setMode('SCATTER');
+    expect(controller.focused).toBeNull();
+  });
+});
+
+describe('browse', () => {
+  it('wraps around in both directions', () => {
+    const controller = withPhotos(['a', 'b', 'c']);
+    controller.focus('c');
+    controller.browse(1);
+    expect(controller.focused).toBe('a');
+    controller.browse(-1);
+    expect(controller.focused).toBe('c');
+    controller.browse(-4);
+    expect(controller.focused).toBe('b');
+  });
+
+  it('starts at the last photo when going back outside FOCUS', () => {
+    const controller = withPhotos(['a', 'b', 'c']);
+    controller.browse(-1);
+    expect(controller.focused).toBe('c');
+  });
+
+  it('resumes at the last photo shown', () => {
+    const controller = withPhotos(['a', 'b', 'c']);
+    controller.focus('b');
+    controller.cycle();
+    expect(controller.mode).toBe('SCATTER');
+
+    controller.browse(1);
+    expect(controller.focused).toBe('b');
+    controller.setMode('TREE');
+    controller.setMode('FOCUS');
+    expect(controller.focused).toBe('b');
+  });
+
+  it('forgets the photo to resume at once it is removed', () => {
+    const controller = withPhotos(['a', 'b', 'c']);
+    controller.focus('b');
+    controller.setMode('TREE');
+    controller.setPhotos(['a', 'c']);
+    controller.setMode('FOCUS');
+    expect(controller.focused).toBe('a');
+  });
+});
+
+describe('setPhotos', () => {
+  it('scatters the scene when the focused photo is removed', () => {
+    const controller = withPhotos(['a', 'b', 'c']);
+    controller.focus('b');
+    controller.setPhotos(['a', 'c']);
+    expect(controller.mode).toBe('SCATTER');
+    expect(controller.focused).toBeNull();
+  });
+
+  it('keeps FOCUS when another photo is removed', () => {
+    const controller = withPhotos(['a', 'b', 'c']);
+    controller.focus('b');
+    controller.setPhotos(['b', 'c']);
+    expect(controller.mode).toBe('FOCUS');
+    expect(controller.focused).toBe('b');
+  });
+
+  it('announces photos removed, then added, with the new count', () => {
+    const controller = withPhotos(['a', 'b']);
+    const events = record(controller);
+    controller.setPhotos(['b', 'c', 'd']);
+    expect(events).toEqual([
+      ['photoRemoved', { id: 'a', count: 3 }],
+      ['photoAdded', { id: 'c', count: 3 }],
+      ['photoAdded', { id: 'd', count: 3 }],
+    ]);
+  });
+
+  it('announces a new order of the photos it kept', () => {
+    const controller = withPhotos(['a', 'b', 'c']);
+    const events = record(controller);
+    controller.setPhotos(['a', 'b', 'c']);
+    controller.setPhotos(['c', 'a', 'b']);
+    expect(events).toEqual([['photosReordered', { ids: ['c', 'a', 'b'] }]]);
+  });
+});
+
+describe('event order', () => {
+  it('announces the mode before the focus', () => {
+    const controller = withPhotos(['a', 'b']);
+    const events = record(controller);
+    controller.focus('a');
+    controller.focus('b');
+    controller.setMode('TREE');
+    expect(events).toEqual([
+      ['modeChanged', { mode: 'FOCUS', previous: 'TREE' }],
+      ['focusChanged', { id: 'a', previous: null }],
+      ['focusChanged', { id: 'b', previous: 'a' }],
+      ['modeChanged', { mode: 'TREE', previous: 'FOCUS' }],
+      ['focusChanged', { id: null, previous: 'b' }],
+    ]);
+  });
+
+  it('scatters before announcing the removed photo', () => {
+    const controller = withPhotos(['a', 'b']);
+    controller.focus('a');
+    const events = record(controller);
+    controller.setPhotos(['b']);
+    expect(events).toEqual([
+      ['modeChanged', { mode: 'SCATTER', previous: 'FOCUS' }],
+      ['focusChanged', { id: null, previous: 'a' }],
+      ['photoRemoved', { id: 'a', count: 1 }],
+    ]);
+  });
+
+  it('stops calling a listener once unsubscribed', () => {
+    const controller = withPhotos(['a']);
+    const seen: string[] = [];
+    const unsubscribe = controller.on('modeChanged', event => seen.push(event.mode));
+    controller.setMode('SCATTER');
+    unsubscribe();
+    controller.setMode('TREE');
+    expect(seen).toEqual(['SCATTER']);
+  });
+});
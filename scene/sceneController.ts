@@ -0,0 +1,142 @@
+import { AppMode } from '../types';
+
+// --- Scene Controller ---
+// Single owner of the scene's mode and focused photo. Mouse, touch, keyboard, hands, the
+// slideshow and the UI all change them through the transitions below, which check their
+// guards (FOCUS needs a photo to show) and announce what changed. Photos are known by id, in
+// browsing order. No three.js, DOM or React dependencies: the scene maps ids to frames.
+
+export interface SceneEvents {
+  modeChanged: { mode: AppMode; previous: AppMode };
+  /** The photo in FOCUS changed; null when none is. */
+  focusChanged: { id: string | null; previous: string | null };
+  photoAdded: { id: string; count: number };
+  photoRemoved: { id: string; count: number };
+  /** Photos the scene kept now browse in a different order. */
+  photosReordered: { ids: readonly string[] };
+}
+
+export type SceneEventType = keyof SceneEvents;
+
+export type SceneListener<K extends SceneEventType> = (event: SceneEvents[K]) => void;
+
+export class SceneController {
+  private currentMode: AppMode;
+  private focusedId: string | null = null;
+  // Photo FOCUS resumes at when entered without choosing one
+  private lastFocusedId: string | null = null;
+  private photoIds: string[] = [];
+  private listeners: { [K in SceneEventType]: Set<SceneListener<K>> } = {
+    modeChanged: new Set(),
+    focusChanged: new Set(),
+    photoAdded: new Set(),
+    photoRemoved: new Set(),
+    photosReordered: new Set(),
+  };
+
+  constructor(mode: AppMode = 'TREE') {
+    this.currentMode = mode;
+  }
+
+  get mode(): AppMode {
+    return this.currentMode;
+  }
+
+  /** Photo shown in FOCUS, or null. */
+  get focused(): string | null {
+    return this.focusedId;
+  }
+
+  /** Photo ids in browsing order. */
+  get photos(): readonly string[] {
+    return this.photoIds;
+  }
+
+  /** Calls `listener` on every `type` event; returns an unsubscribe. */
+  on<K extends SceneEventType>(type: K, listener: SceneListener<K>): () => void {
+    this.listeners[type].add(listener);
+    return () => { this.listeners[type].delete(listener); };
+  }
+
+  /**
+   * Switches mode. FOCUS resumes at the last photo shown (or the first); the other modes let
+   * go of the focused photo. Returns false if the guard refused the change.
+   */
+  setMode(mode: AppMode): boolean {
+    if (mode === 'FOCUS') return this.currentMode === 'FOCUS' || this.browse(0);
+    this.transition(mode, null);
+    return true;
+  }
+
+  /** Focuses photo `id`; refused for photos the scene doesn't have. */
+  focus(id: string): boolean {
+    if (!this.photoIds.includes(id)) return false;
+    this.transition('FOCUS', id);
+    return true;
+  }
+
+  /**
+   * Focuses the photo `step` places after (negative: before) the focused one. Outside FOCUS it
+   * resumes at the last photo shown, or starts at the first (last, going back). Refused
+   * without photos.
+   */
+  browse(step: number): boolean {
+    const ids = this.photoIds;
+    if (ids.length === 0) return false;
+
+    const current = this.focusedId ? ids.indexOf(this.focusedId) : -1;
+    let next: number;
+    if (this.currentMode === 'FOCUS' && current !== -1) {
+      next = (current + step + ids.length) % ids.length;
+    } else {
+      const last = this.lastFocusedId ? ids.indexOf(this.lastFocusedId) : -1;
+      next = last !== -1 ? last : step < 0 ? ids.length - 1 : 0;
+    }
+    this.transition('FOCUS', ids[next]);
+    return true;
+  }
+
+  /** A tap on empty space: the tree scatters, and anything else assembles into the tree. */
+  cycle() {
+    this.setMode(this.currentMode === 'TREE' || this.currentMode === 'FOCUS' ? 'SCATTER' : 'TREE');
+  }
+
+  /**
+   * Replaces the browsing order. Photos that are gone are forgotten; losing the focused one
+   * scatters the scene.
+   */
+  setPhotos(ids: string[]) {
+    const previous = new Set(this.photoIds);
+    const next = new Set(ids);
+    const keptBefore = this.photoIds.filter(id => next.has(id));
+    const keptAfter = ids.filter(id => previous.has(id));
+    this.photoIds = [...ids];
+
+    if (this.lastFocusedId && !next.has(this.lastFocusedId)) this.lastFocusedId = null;
+    if (this.focusedId && !next.has(this.focusedId)) this.transition('SCATTER', null);
+
+    const count = ids.length;
+    previous.forEach(id => {
+      if (!next.has(id)) this.emit('photoRemoved', { id, count });
+    });
+    ids.forEach(id => {
+      if (!previous.has(id)) this.emit('photoAdded', { id, count });
+    });
+    if (keptAfter.some((id, i) => id !== keptBefore[i])) this.emit('photosReordered', { ids: this.photoIds });
+  }
+
+  private transition(mode: AppMode, focusedId: string | null) {
+    const previousMode = this.currentMode;
+    const previousFocus = this.focusedId;
+    this.currentMode = mode;
+    this.focusedId = focusedId;
+    if (focusedId) this.lastFocusedId = focusedId;
+
+    if (mode !== previousMode) this.emit('modeChanged', { mode, previous: previousMode });
+    if (focusedId !== previousFocus) this.emit('focusChanged', { id: focusedId, previous: previousFocus });
+  }
+
+  private emit<K extends SceneEventType>(type: K, event: SceneEvents[K]) {
+    this.listeners[type].forEach(listener => listener(event));
+  }
+}
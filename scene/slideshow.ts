@@ -0,0 +1,84 @@
+// --- Slideshow ---
+// Hands-free photo rounds: every photo is shown for the dwell time, then the tree stands for
+// a while before the next round. The schedule is frozen while anyone reaches into view (or
+// the scene is paused) and picks up again shortly after. No three.js or DOM dependencies;
+// the scene turns the returned steps into modes.
+
+export type SlideshowState = 'off' | 'playing' | 'held';
+
+export type SlideshowStep =
+  /** Focus photo `index` of the browsing order for `durationMs`. */
+  | { type: 'SHOW'; index: number; durationMs: number }
+  | { type: 'TREE' };
+
+export interface SlideshowConfig {
+  /** How long the tree stands between rounds. */
+  interludeMs: number;
+  /** Delay after the last hand left before the slideshow continues. */
+  resumeMs: number;
+}
+
+export const DEFAULT_SLIDESHOW_CONFIG: SlideshowConfig = {
+  interludeMs: 6000,
+  resumeMs: 2500,
+};
+
+export class Slideshow {
+  readonly config: SlideshowConfig;
+
+  private running = false;
+  private held = false;
+  private index = -1;
+  private nextAt = 0;
+  private releasedAt = -Infinity;
+  private lastUpdate = 0;
+
+  constructor(config: Partial<SlideshowConfig> = {}) {
+    this.config = { ...DEFAULT_SLIDESHOW_CONFIG, ...config };
+  }
+
+  get state(): SlideshowState {
+    return !this.running ? 'off' : this.held ? 'held' : 'playing';
+  }
+
+  /** Starts a round with the first photo at the next update. */
+  start(now: number) {
+    this.running = true;
+    this.held = false;
+    this.index = -1;
+    this.nextAt = now;
+    this.lastUpdate = now;
+  }
+
+  stop() {
+    this.running = false;
+  }
+
+  /**
+   * Advances the schedule. `hold` is true while a hand is in view or the scene is paused.
+   * Returns the next step when it is due, otherwise null.
+   */
+  update(now: number, photoCount: number, dwellMs: number, hold: boolean): SlideshowStep | null {
+    if (!this.running) return null;
+    const elapsed = now - this.lastUpdate;
+    this.lastUpdate = now;
+
+    if (hold) this.releasedAt = now;
+    this.held = now - this.releasedAt < this.config.resumeMs;
+    if (this.held) {
+      // Freeze the schedule for as long as it is held
+      this.nextAt += elapsed;
+      return null;
+    }
+    if (now < this.nextAt) return null;
+
+    if (this.index + 1 < photoCount) {
+      this.index++;
+      this.nextAt = now + dwellMs;
+      return { type: 'SHOW', index: this.index, durationMs: dwellMs };
+    }
+    this.index = -1;
+    this.nextAt = now + this.config.interludeMs;
+    return { type: 'TREE' };
+  }
+}
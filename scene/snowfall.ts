@@ -0,0 +1,235 @@
+import * as THREE from 'three';
+
+// --- Snowfall ---
+// Falling flakes are one THREE.Points cloud in world space, updated in a single loop over a
+// typed array. Buffers are sized for the maximum density once, so density changes only move
+// the draw range. Flakes that land on the tree silhouette move into a second Points cloud
+// that lives in the tree's local space (and so turns with it) until the silhouette goes away,
+// at which point the settled snow melts.
+
+/** A cone standing on y = -height / 2 in the tree's local space, like the 'tree' formation. */
+export interface SnowSilhouette {
+  height: number;
+  radius: number;
+}
+
+export interface SnowfallConfig {
+  /** Upper bound for the density setting; buffers are allocated for this many flakes. */
+  maxFlakes: number;
+  /** Settled flakes kept at most; the oldest are recycled first. */
+  maxSettled: number;
+  /** Flakes fall through a box this wide and deep (world units)... */
+  width: number;
+  depth: number;
+  /** ...between these heights. */
+  top: number;
+  bottom: number;
+  /** Fall speed at a fall-speed setting of 1 (world units per second). */
+  baseFallSpeed: number;
+  /** Side-to-side sway of a falling flake (world units per second). */
+  sway: number;
+  /** Fraction of the settled snow's opacity lost per second while melting. */
+  meltRate: number;
+}
+
+export const DEFAULT_SNOWFALL_CONFIG: SnowfallConfig = {
+  maxFlakes: 6000,
+  maxSettled: 3000,
+  width: 80,
+  depth: 60,
+  top: 30,
+  bottom: -20,
+  baseFallSpeed: 3,
+  sway: 0.6,
+  meltRate: 0.5,
+};
+
+const createFlakeTexture = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    const gradient = ctx.createRadialGradient(32, 32, 0, 32, 32, 32);
+    gradient.addColorStop(0, 'rgba(255,255,255,1)');
+    gradient.addColorStop(0.4, 'rgba(255,255,255,0.8)');
+    gradient.addColorStop(1, 'rgba(255,255,255,0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 64, 64);
+  }
+  return new THREE.CanvasTexture(canvas);
+};
+
+export class Snowfall {
+  readonly config: SnowfallConfig;
+  /** Falling flakes; add to the scene. */
+  readonly object: THREE.Points;
+  /** Snow resting on the tree; add to the group the tree turns with. */
+  readonly settledObject: THREE.Points;
+
+  private texture = createFlakeTexture();
+  private position: Float32Array;
+  private speed: Float32Array;
+  private phase: Float32Array;
+  private settled: Float32Array;
+  private settledCount = 0;
+  private settledNext = 0;
+  private density = 0;
+  private fallSpeed = 1;
+  private silhouette: SnowSilhouette | null = null;
+
+  constructor(config: Partial<SnowfallConfig> = {}) {
+    this.config = { ...DEFAULT_SNOWFALL_CONFIG, ...config };
+    const { maxFlakes, maxSettled } = this.config;
+
+    this.position = new Float32Array(maxFlakes * 3);
+    this.speed = new Float32Array(maxFlakes);
+    this.phase = new Float32Array(maxFlakes);
+    for (let i = 0; i < maxFlakes; i++) {
+      this.respawn(i, this.config.bottom + Math.random() * (this.config.top - this.config.bottom));
+      this.speed[i] = 0.6 + Math.random() * 0.8;
+      this.phase[i] = Math.random() * Math.PI * 2;
+    }
+    this.settled = new Float32Array(maxSettled * 3);
+
+    this.object = this.createPoints(this.position);
+    this.settledObject = this.createPoints(this.settled);
+    this.settledObject.geometry.setDrawRange(0, 0);
+    this.setDensity(0);
+  }
+
+  /** Number of flakes falling at once (clamped to `maxFlakes`). */
+  setDensity(count: number) {
+    this.density = Math.round(THREE.MathUtils.clamp(count, 0, this.config.maxFlakes));
+    this.object.geometry.setDrawRange(0, this.density);
+  }
+
+  setFlakeSize(size: number) {
+    (this.object.material as THREE.PointsMaterial).size = size;
+    (this.settledObject.material as THREE.PointsMaterial).size = size * 0.8;
+  }
+
+  /** Multiple of the base fall speed. */
+  setFallSpeed(multiplier: number) {
+    this.fallSpeed = multiplier;
+  }
+
+  /** Where falling snow may settle; null lets settled snow melt away. A new shape starts bare. */
+  setSilhouette(silhouette: SnowSilhouette | null) {
+    const previous = this.silhouette;
+    this.silhouette = silhouette;
+    if (silhouette && previous && (silhouette.height !== previous.height || silhouette.radius !== previous.radius)) {
+      this.clearSettled();
+    }
+  }
+
+  clearSettled() {
+    this.settledCount = 0;
+    this.settledNext = 0;
+    this.settledObject.geometry.setDrawRange(0, 0);
+  }
+
+  /**
+   * Moves the falling flakes with `wind` (world units per second) and settles those that
+   * land on the silhouette. `toLocal` maps world space into the settled snow's space.
+   */
+  update(dt: number, time: number, wind: THREE.Vector3, toLocal: THREE.Matrix4) {
+    const { width, depth, top, bottom, baseFallSpeed, sway, meltRate } = this.config;
+    const pos = this.position;
+    const fall = baseFallSpeed * this.fallSpeed * dt;
+    const halfW = width / 2;
+    const halfD = depth / 2;
+    const shape = this.silhouette;
+    const e = toLocal.elements;
+
+    for (let i = 0; i < this.density; i++) {
+      const i3 = i * 3;
+      const drift = Math.sin(time * 1.3 + this.phase[i]) * sway;
+      pos[i3] += (wind.x + drift) * dt;
+      pos[i3 + 1] -= fall * this.speed[i];
+      pos[i3 + 2] += (wind.z + drift * 0.5) * dt;
+
+      if (pos[i3 + 1] < bottom) {
+        this.respawn(i, top);
+        continue;
+      }
+      // Wrap sideways so gusts don't empty the box
+      if (pos[i3] > halfW) pos[i3] -= width;
+      else if (pos[i3] < -halfW) pos[i3] += width;
+      if (pos[i3 + 2] > halfD) pos[i3 + 2] -= depth;
+      else if (pos[i3 + 2] < -halfD) pos[i3 + 2] += depth;
+
+      if (!shape) continue;
+      const x = pos[i3], y = pos[i3 + 1], z = pos[i3 + 2];
+      const ly = e[1] * x + e[5] * y + e[9] * z + e[13];
+      const t = (ly + shape.height / 2) / shape.height;
+      if (t < 0 || t > 1) continue;
+      const lx = e[0] * x + e[4] * y + e[8] * z + e[12];
+      const lz = e[2] * x + e[6] * y + e[10] * z + e[14];
+      const coneRadius = shape.radius * (1 - t);
+      const r = Math.hypot(lx, lz);
+      if (r > coneRadius) continue;
+
+      // Rest on the surface rather than wherever inside the cone the flake was caught
+      const k = r > 0.001 ? coneRadius / r : 0;
+      this.settle(lx * k, ly + 0.1, lz * k);
+      this.respawn(i, top);
+    }
+    this.object.geometry.attributes.position.needsUpdate = true;
+
+    const material = this.settledObject.material as THREE.PointsMaterial;
+    if (shape) {
+      material.opacity = Math.min(1, material.opacity + meltRate * dt);
+    } else if (this.settledCount > 0) {
+      material.opacity = Math.max(0, material.opacity - meltRate * dt);
+      if (material.opacity === 0) this.clearSettled();
+    }
+  }
+
+  dispose() {
+    [this.object, this.settledObject].forEach(points => {
+      points.removeFromParent();
+      points.geometry.dispose();
+      (points.material as THREE.Material).dispose();
+    });
+    this.texture.dispose();
+  }
+
+  private createPoints(buffer: Float32Array) {
+    const geometry = new THREE.BufferGeometry();
+    const attribute = new THREE.BufferAttribute(buffer, 3);
+    attribute.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('position', attribute);
+    const material = new THREE.PointsMaterial({
+      color: 0xffffff,
+      map: this.texture,
+      size: 0.25,
+      transparent: true,
+      depthWrite: false,
+    });
+    const points = new THREE.Points(geometry, material);
+    // Flakes wander across the whole box, so bounds from the first frame would be wrong
+    points.frustumCulled = false;
+    return points;
+  }
+
+  private respawn(i: number, y: number) {
+    const { width, depth } = this.config;
+    this.position[i * 3] = (Math.random() - 0.5) * width;
+    this.position[i * 3 + 1] = y;
+    this.position[i * 3 + 2] = (Math.random() - 0.5) * depth;
+  }
+
+  private settle(x: number, y: number, z: number) {
+    const i3 = this.settledNext * 3;
+    this.settled[i3] = x;
+    this.settled[i3 + 1] = y;
+    this.settled[i3 + 2] = z;
+    this.settledNext = (this.settledNext + 1) % this.config.maxSettled;
+    this.settledCount = Math.min(this.settledCount + 1, this.config.maxSettled);
+
+    const geometry = this.settledObject.geometry;
+    geometry.setDrawRange(0, this.settledCount);
+    geometry.attributes.position.needsUpdate = true;
+  }
+}
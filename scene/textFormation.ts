@@ -0,0 +1,78 @@
+// --- Greeting Text Formation ---
+// The greeting is rasterized with the page's display font on an offscreen canvas and the
+// lit pixels become target points for the particles. Anything the browser can draw works,
+// so any Unicode string (and emoji) can be spelled out.
+
+export const DEFAULT_GREETING = 'Merry Christmas';
+/** Line under the default greeting; a custom greeting stands on its own. */
+export const DEFAULT_SUBTITLE = 'Luxury Edition';
+
+export interface TextFormationConfig {
+  /** Size of the text block in world units. */
+  width: number;
+  height: number;
+  /** Vertical centre of the text block. */
+  centerY: number;
+  /** Lines are wrapped at word boundaries near this many characters. */
+  maxLineLength: number;
+  /** Raster font size; larger gives finer letter shapes. */
+  fontPx: number;
+  /** Only every n-th pixel in each direction is considered. */
+  pixelStep: number;
+}
+
+export const DEFAULT_TEXT_CONFIG: TextFormationConfig = {
+  width: 36,
+  height: 20,
+  centerY: 1,
+  maxLineLength: 14,
+  fontPx: 120,
+  pixelStep: 2,
+};
+
+/** Splits at spaces into lines of roughly `maxLength` characters; long words stay whole. */
+export const wrapText = (text: string, maxLength: number): string[] => {
+  const lines: string[] = [];
+  text.trim().split(/\s+/).filter(Boolean).forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && (last + ' ' + word).length <= maxLength) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  });
+  return lines;
+};
+
+/**
+ * Returns xyz triplets (z = 0) covering the greeting's letters, centred on the origin
+ * horizontally. Returns an empty array if nothing visible was drawn.
+ */
+export const sampleTextPoints = (text: string, config: Partial<TextFormationConfig> = {}): Float32Array => {
+  const { width, height, centerY, maxLineLength, fontPx, pixelStep } = { ...DEFAULT_TEXT_CONFIG, ...config };
+  const lines = wrapText(text, maxLineLength);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || lines.length === 0) return new Float32Array(0);
+
+  const font = `700 ${fontPx}px Cinzel, 'Playfair Display', serif`;
+  ctx.font = font;
+  const lineHeight = fontPx * 1.2;
+  canvas.width = Math.ceil(Math.max(...lines.map(l => ctx.measureText(l).width)) + fontPx * 0.5);
+  canvas.height = Math.ceil(lines.length * lineHeight + fontPx * 0.3);
+
+  // Resizing resets the context state
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, canvas.width / 2, (i + 0.5) * lineHeight + fontPx * 0.15));
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const scale = Math.min(width / canvas.width, height / canvas.height);
+  const points: number[] = [];
+  for (let y = 0; y < canvas.height; y += pixelStep) {
+    for (let x = 0; x < canvas.width; x += pixelStep) {
+      if (data[(y * canvas.width + x) * 4 + 3] < 128) continue;
+      points.push((x - canvas.width / 2) * scale, (canvas.height / 2 - y) * scale + centerY, 0);
+    }
+  }
+  return new Float32Array(points);
+};
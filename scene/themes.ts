@@ -0,0 +1,212 @@
+import { Theme } from '../types';
+
+// --- Themes ---
+// A theme covers every colour the scene and overlay use: materials, star, lights, fog,
+// bloom and the UI accent. Built-in themes live here; users can add their own as JSON,
+// which are kept in localStorage.
+
+const CUSTOM_THEMES_KEY = 'christmas-tree-custom-themes';
+
+export const CLASSIC_GOLD: Theme = {
+  id: 'classic-gold',
+  name: 'Classic Gold',
+  colors: {
+    bg: 0x000000,
+    champagneGold: 0xffd700, // Metallic Gold
+    deepGreen: 0x165b33,     // Christmas Tree Green
+    accentRed: 0xc41230,     // Christmas Red
+    goldEmissive: 0x442200,
+    redEmissive: 0x330000,
+    star: 0xffdd88,
+    starEmissive: 0xffaa00,
+    dust: 0xffeebb,
+  },
+  lights: {
+    ambient: 0xffffff,
+    ambientIntensity: 0.4,
+    inner: 0xffaa00,
+    innerIntensity: 3,
+    spot: 0xffcc66,
+    fill: 0xffeebb,
+  },
+  fogDensity: 0.015,
+  bloom: { threshold: 0.5, strength: 0.6, radius: 0.8 },
+  ui: { accent: '#d4af37', highlight: '#eebb66', glow: '#fceea7' },
+};
+
+const SILVER_FROST: Theme = {
+  id: 'silver-frost',
+  name: 'Silver Frost',
+  colors: {
+    bg: 0x05070c,
+    champagneGold: 0xdfe6ee,
+    deepGreen: 0x2f4a5a,
+    accentRed: 0x8fb8de,
+    goldEmissive: 0x1a2633,
+    redEmissive: 0x0a1a2a,
+    star: 0xeaf4ff,
+    starEmissive: 0x88bbff,
+    dust: 0xdfefff,
+  },
+  lights: {
+    ambient: 0xe8f0ff,
+    ambientIntensity: 0.45,
+    inner: 0x99ccff,
+    innerIntensity: 3,
+    spot: 0xcfe3ff,
+    fill: 0xe0f0ff,
+  },
+  fogDensity: 0.018,
+  bloom: { threshold: 0.45, strength: 0.7, radius: 0.85 },
+  ui: { accent: '#c8d3df', highlight: '#eef4fb', glow: '#d8e8ff' },
+};
+
+const NORDIC_WHITE: Theme = {
+  id: 'nordic-white',
+  name: 'Nordic White',
+  colors: {
+    bg: 0x0e0f11,
+    champagneGold: 0xf4f1ea,
+    deepGreen: 0x3e5a4c,
+    accentRed: 0xb3262e,
+    goldEmissive: 0x2a2520,
+    redEmissive: 0x2a0000,
+    star: 0xfff8ec,
+    starEmissive: 0xffe2b0,
+    dust: 0xffffff,
+  },
+  lights: {
+    ambient: 0xfff8f0,
+    ambientIntensity: 0.5,
+    inner: 0xffe0b0,
+    innerIntensity: 2.5,
+    spot: 0xfff2dd,
+    fill: 0xfff8f0,
+  },
+  fogDensity: 0.014,
+  bloom: { threshold: 0.55, strength: 0.5, radius: 0.7 },
+  ui: { accent: '#e8e2d6', highlight: '#ffffff', glow: '#fff6e5' },
+};
+
+const MIDNIGHT_BLUE: Theme = {
+  id: 'midnight-blue',
+  name: 'Midnight Blue',
+  colors: {
+    bg: 0x020618,
+    champagneGold: 0xf0c75e,
+    deepGreen: 0x0f2a5c,
+    accentRed: 0x3a6fd8,
+    goldEmissive: 0x2a1a00,
+    redEmissive: 0x001a44,
+    star: 0xfff0c0,
+    starEmissive: 0xffc24a,
+    dust: 0xaec8ff,
+  },
+  lights: {
+    ambient: 0xc8d4ff,
+    ambientIntensity: 0.35,
+    inner: 0x6f8fff,
+    innerIntensity: 3.5,
+    spot: 0xb8c8ff,
+    fill: 0x8899ff,
+  },
+  fogDensity: 0.02,
+  bloom: { threshold: 0.45, strength: 0.75, radius: 0.85 },
+  ui: { accent: '#7fa2ff', highlight: '#dfe8ff', glow: '#9fb8ff' },
+};
+
+export const BUILT_IN_THEMES: Theme[] = [CLASSIC_GOLD, SILVER_FROST, NORDIC_WHITE, MIDNIGHT_BLUE];
+
+// --- Custom (JSON) Themes ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Accepts 0xRRGGBB numbers or "#rrggbb" / "#rgb" strings. */
+const parseColor = (value: unknown, fallback: number): number => {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffff) return value;
+  if (typeof value === 'string') {
+    const hex = value.trim().replace(/^#/, '');
+    if (/^[0-9a-f]{3}$/i.test(hex)) return parseInt(hex.split('').map(c => c + c).join(''), 16);
+    if (/^[0-9a-f]{6}$/i.test(hex)) return parseInt(hex, 16);
+  }
+  return fallback;
+};
+
+const parseCssColor = (value: unknown, fallback: string): string =>
+  typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value.trim()) ? value.trim() : fallback;
+
+const parseNumber = (value: unknown, fallback: number, min: number, max: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'custom';
+
+/**
+ * Builds a theme from user JSON. Any missing or invalid field falls back to Classic Gold,
+ * so a theme only needs to list the colours it changes. Throws if `name` is missing.
+ */
+export const parseTheme = (input: unknown): Theme => {
+  if (!isRecord(input) || typeof input.name !== 'string' || !input.name.trim()) {
+    throw new Error('A theme needs at least a "name"');
+  }
+  const base = CLASSIC_GOLD;
+  const colors = isRecord(input.colors) ? input.colors : {};
+  const lights = isRecord(input.lights) ? input.lights : {};
+  const bloom = isRecord(input.bloom) ? input.bloom : {};
+  const ui = isRecord(input.ui) ? input.ui : {};
+
+  const pickColors = <T extends object>(source: Record<string, unknown>, defaults: T): T =>
+    Object.fromEntries(Object.entries(defaults).map(([k, v]) => [k, parseColor(source[k], v)])) as T;
+
+  const name = input.name.trim();
+  const slug = slugify(typeof input.id === 'string' ? input.id : name);
+  return {
+    id: slug.startsWith('custom-') ? slug : `custom-${slug}`,
+    name,
+    colors: pickColors(colors, base.colors),
+    lights: {
+      ...pickColors(lights, base.lights),
+      ambientIntensity: parseNumber(lights.ambientIntensity, base.lights.ambientIntensity, 0, 5),
+      innerIntensity: parseNumber(lights.innerIntensity, base.lights.innerIntensity, 0, 20),
+    },
+    fogDensity: parseNumber(input.fogDensity, base.fogDensity, 0, 0.1),
+    bloom: {
+      threshold: parseNumber(bloom.threshold, base.bloom.threshold, 0, 1),
+      strength: parseNumber(bloom.strength, base.bloom.strength, 0, 3),
+      radius: parseNumber(bloom.radius, base.bloom.radius, 0, 1),
+    },
+    ui: {
+      accent: parseCssColor(ui.accent, base.ui.accent),
+      highlight: parseCssColor(ui.highlight, base.ui.highlight),
+      glow: parseCssColor(ui.glow, base.ui.glow),
+    },
+  };
+};
+
+export const loadCustomThemes = (): Theme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_THEMES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.flatMap(t => { try { return [parseTheme(t)]; } catch { return []; } }) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Adds (or replaces, by id) a custom theme and returns the updated list. */
+export const saveCustomTheme = (theme: Theme): Theme[] => {
+  const themes = [...loadCustomThemes().filter(t => t.id !== theme.id), theme];
+  localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes));
+  return themes;
+};
+
+export const removeCustomTheme = (id: string): Theme[] => {
+  const themes = loadCustomThemes().filter(t => t.id !== id);
+  localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes));
+  return themes;
+};
+
+/** "#d4af37" -> "212 175 55", for CSS `rgb(var(--accent) / <alpha>)`. */
+export const toRgbChannels = (hex: string): string => {
+  const n = parseColor(hex, 0);
+  return `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`;
+};
@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+
+// --- Video Memories ---
+// Video clips play inside photo frames as textures fed from hidden <video> elements. Only the
+// focused clip runs at full rate with sound, restarting each time it is focused; the others
+// play muted with their textures refreshed a few times a second, and beyond a handful they
+// pause on their current frame so the browser isn't decoding a whole album at once.
+
+export interface VideoMemoriesConfig {
+  /** Texture refreshes per second for clips that aren't focused. */
+  idleFps: number;
+  /** Unfocused clips that keep playing; the rest pause. */
+  maxIdlePlaying: number;
+}
+
+export const DEFAULT_VIDEO_MEMORIES_CONFIG: VideoMemoriesConfig = {
+  idleFps: 8,
+  maxIdlePlaying: 4,
+};
+
+interface Clip {
+  video: HTMLVideoElement;
+  lastUpload: number;
+}
+
+const play = (video: HTMLVideoElement) => {
+  video.play().catch(() => {
+    // Sound needs a user gesture first; play muted rather than not at all
+    if (video.muted) return;
+    video.muted = true;
+    video.play().catch(() => {});
+  });
+};
+
+export class VideoMemories {
+  readonly config: VideoMemoriesConfig;
+
+  private clips = new Map<THREE.Texture, Clip>();
+  private focused: THREE.Texture | null = null;
+
+  constructor(config: Partial<VideoMemoriesConfig> = {}) {
+    this.config = { ...DEFAULT_VIDEO_MEMORIES_CONFIG, ...config };
+  }
+
+  /** Loads a clip as a muted, looping texture. Disposing the texture stops and frees the video. */
+  async load(url: string): Promise<THREE.Texture> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = url;
+    await new Promise<void>((resolve, reject) => {
+      video.addEventListener('loadeddata', () => resolve(), { once: true });
+      video.addEventListener('error', () => reject(new Error('Could not play the video')), { once: true });
+    });
+
+    const texture = new THREE.Texture(video);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.minFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    texture.needsUpdate = true;
+    texture.addEventListener('dispose', () => this.release(texture));
+    this.clips.set(texture, { video, lastUpload: 0 });
+    return texture;
+  }
+
+  /**
+   * Plays, pauses and refreshes the clips. `focused` is the texture of the photo in FOCUS (if
+   * any); `paused` stops every clip.
+   */
+  update(now: number, focused: THREE.Texture | null, paused: boolean) {
+    if (focused !== this.focused) {
+      const previous = this.focused && this.clips.get(this.focused);
+      if (previous) previous.video.muted = true;
+      this.focused = focused;
+      const clip = focused && this.clips.get(focused);
+      if (clip) {
+        clip.video.currentTime = 0;
+        clip.video.muted = false;
+      }
+    }
+
+    const { idleFps, maxIdlePlaying } = this.config;
+    let idlePlaying = 0;
+    this.clips.forEach((clip, texture) => {
+      const isFocused = texture === focused;
+      const playing = !paused && (isFocused || idlePlaying < maxIdlePlaying);
+      if (playing && !isFocused) idlePlaying++;
+
+      const { video } = clip;
+      if (playing && video.paused) play(video);
+      else if (!playing && !video.paused) video.pause();
+
+      const interval = isFocused ? 0 : 1000 / idleFps;
+      if (playing && now - clip.lastUpload >= interval && video.readyState >= video.HAVE_CURRENT_DATA) {
+        texture.needsUpdate = true;
+        clip.lastUpload = now;
+      }
+    });
+  }
+
+  dispose() {
+    Array.from(this.clips.keys()).forEach(texture => this.release(texture));
+    this.focused = null;
+  }
+
+  private release(texture: THREE.Texture) {
+    const clip = this.clips.get(texture);
+    if (!clip) return;
+    this.clips.delete(texture);
+    if (this.focused === texture) this.focused = null;
+    // Dropping the source lets the browser free the decoder right away
+    clip.video.pause();
+    clip.video.removeAttribute('src');
+    clip.video.load();
+  }
+}
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+
+// --- Wind ---
+// A slowly veering breeze with occasional gusts. The velocity is in world space and
+// horizontal; consumers scale it to taste (snow drifts with it fully, ornaments only lean).
+
+export interface WindConfig {
+  /** Steady breeze speed in world units per second. */
+  breeze: number;
+  /** Extra speed at the peak of a gust. */
+  gustPeak: number;
+  /** Gusts start at random intervals between these (seconds)... */
+  gustMinInterval: number;
+  gustMaxInterval: number;
+  /** ...and each lasts this long. */
+  gustDuration: number;
+  /** How fast the wind direction wanders (radians per second, at most). */
+  veer: number;
+}
+
+export const DEFAULT_WIND_CONFIG: WindConfig = {
+  breeze: 0.6,
+  gustPeak: 4,
+  gustMinInterval: 4,
+  gustMaxInterval: 12,
+  gustDuration: 2.5,
+  veer: 0.15,
+};
+
+export class Wind {
+  readonly config: WindConfig;
+  /** Current wind in world units per second. */
+  readonly velocity = new THREE.Vector3();
+
+  private direction = Math.random() * Math.PI * 2;
+  private untilGust: number;
+  private gustAge = Infinity;
+
+  constructor(config: Partial<WindConfig> = {}) {
+    this.config = { ...DEFAULT_WIND_CONFIG, ...config };
+    this.untilGust = this.nextInterval();
+  }
+
+  /** 0..1: how far into its peak the current gust is (0 between gusts). */
+  get gust(): number {
+    const { gustDuration } = this.config;
+    return this.gustAge < gustDuration ? Math.sin((this.gustAge / gustDuration) * Math.PI) : 0;
+  }
+
+  /** Advances the wind; `strength` scales the result (0 is calm). */
+  update(dt: number, strength: number): THREE.Vector3 {
+    const { breeze, gustPeak, veer } = this.config;
+    this.direction += (Math.random() - 0.5) * 2 * veer * dt;
+
+    this.gustAge += dt;
+    this.untilGust -= dt;
+    if (this.untilGust <= 0) {
+      this.gustAge = 0;
+      this.untilGust = this.nextInterval();
+    }
+
+    const speed = (breeze + gustPeak * this.gust) * strength;
+    return this.velocity.set(Math.cos(this.direction) * speed, 0, Math.sin(this.direction) * speed);
+  }
+
+  private nextInterval() {
+    const { gustMinInterval, gustMaxInterval } = this.config;
+    return gustMinInterval + Math.random() * (gustMaxInterval - gustMinInterval);
+  }
+}
@@ -0,0 +1,56 @@
+// Collects every runtime asset the offline build serves from its own origin:
+//   public/mediapipe/wasm/         <- copied from node_modules/@mediapipe/tasks-vision/wasm
+//   public/models/hand_landmarker.task <- downloaded once (or copied from HAND_MODEL_FILE)
+//
+// Run on a machine with internet access; the resulting public/ folder is then bundled by
+// `vite build --mode offline` and needs no network at runtime.
+import { copyFile, cp, mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const publicDir = path.join(root, 'public');
+
+const WASM_SOURCE = path.join(root, 'node_modules/@mediapipe/tasks-vision/wasm');
+const WASM_TARGET = path.join(publicDir, 'mediapipe/wasm');
+const MODEL_TARGET = path.join(publicDir, 'models/hand_landmarker.task');
+const MODEL_URL =
+  process.env.HAND_MODEL_URL ??
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const exists = async (file) => {
+  try {
+    return (await stat(file)).size > 0;
+  } catch {
+    return false;
+  }
+};
+
+await mkdir(WASM_TARGET, { recursive: true });
+await cp(WASM_SOURCE, WASM_TARGET, { recursive: true });
+console.log(`MediaPipe WASM  -> ${path.relative(root, WASM_TARGET)}`);
+
+await mkdir(path.dirname(MODEL_TARGET), { recursive: true });
+if (process.env.HAND_MODEL_FILE) {
+  await copyFile(process.env.HAND_MODEL_FILE, MODEL_TARGET);
+  console.log(`Hand model      -> ${path.relative(root, MODEL_TARGET)} (from ${process.env.HAND_MODEL_FILE})`);
+} else if (await exists(MODEL_TARGET)) {
+  console.log(`Hand model      -> ${path.relative(root, MODEL_TARGET)} (already present)`);
+} else {
+  const fail = (reason) => {
+    console.error(`Could not download the hand model (${reason}) from ${MODEL_URL}`);
+    console.error('Supply a local copy instead: HAND_MODEL_FILE=<path to hand_landmarker.task> npm run build:offline');
+    process.exit(1);
+  };
+  let model;
+  try {
+    // Offline or behind a proxy the request itself throws
+    const res = await fetch(MODEL_URL);
+    if (!res.ok) fail(`${res.status} ${res.statusText}`);
+    model = Buffer.from(await res.arrayBuffer());
+  } catch (err) {
+    fail(err.cause?.message ?? err.message);
+  }
+  await writeFile(MODEL_TARGET, model);
+  console.log(`Hand model      -> ${path.relative(root, MODEL_TARGET)}`);
+}
@@ -0,0 +1,18 @@
+// --- Runtime Asset URLs ---
+// Online builds load MediaPipe from public CDNs. The offline build (`npm run build:offline`)
+// serves the same files from its own origin. Either can be overridden per deployment with
+// VITE_MEDIAPIPE_WASM_URL / VITE_HAND_MODEL_URL.
+
+const CDN_WASM_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm';
+const CDN_HAND_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+// import.meta.env only exists when the app is served through Vite
+const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+const isOffline = env.MODE === 'offline';
+const base = env.BASE_URL ?? '/';
+
+export const ASSET_URLS = {
+  mediapipeWasm: env.VITE_MEDIAPIPE_WASM_URL || (isOffline ? `${base}mediapipe/wasm` : CDN_WASM_URL),
+  handModel: env.VITE_HAND_MODEL_URL || (isOffline ? `${base}models/hand_landmarker.task` : CDN_HAND_MODEL_URL),
+};
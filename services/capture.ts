@@ -0,0 +1,103 @@
+import { Theme } from '../types';
+
+// --- Scene Capture ---
+// Helpers for saving what the scene shows: PNG stills (optionally with the title drawn on
+// top, as the overlay shows it) and WebM clips recorded from the canvas stream.
+
+const CLIP_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const CLIP_FPS = 30;
+const CLIP_BITRATE = 8_000_000;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download only after click() returns; give them time to read the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** "christmas-tree-2025-12-24T18-30-00.png" */
+export const captureFilename = (extension: string) =>
+  `christmas-tree-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
+
+export const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded'))), 'image/png');
+  });
+
+/**
+ * Draws the overlay's heading onto a still. `scale` is the still's size relative to the
+ * window, so the title keeps its on-screen proportions. A null `subtitle` leaves the title alone.
+ */
+export const drawTitleOverlay = (
+  ctx: CanvasRenderingContext2D,
+  title: string,
+  subtitle: string | null,
+  ui: Theme['ui'],
+  scale: number
+) => {
+  const { width } = ctx.canvas;
+  const titleSize = (window.innerWidth >= 768 ? 72 : 48) * scale;
+  const top = 48 * scale;
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+
+  ctx.font = `${titleSize}px Cinzel, serif`;
+  ctx.letterSpacing = `${titleSize * 0.15}px`;
+  const gradient = ctx.createLinearGradient(0, top, 0, top + titleSize);
+  gradient.addColorStop(0, '#ffffff');
+  gradient.addColorStop(1, ui.highlight);
+  ctx.fillStyle = gradient;
+  ctx.shadowColor = ui.glow;
+  ctx.shadowBlur = 30 * scale;
+  ctx.fillText(title, width / 2, top);
+
+  if (subtitle) {
+    ctx.shadowBlur = 0;
+    ctx.font = `${12 * scale}px 'Playfair Display', serif`;
+    ctx.letterSpacing = `${12 * scale * 0.4}px`;
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = ui.accent;
+    ctx.fillText(subtitle.toUpperCase(), width / 2, top + titleSize * 1.25 + 16 * scale);
+  }
+  ctx.restore();
+};
+
+export const canRecordClips = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+  CLIP_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+/** Records `seconds` of the canvas as WebM. Rejects if the browser has no WebM recorder. */
+export const recordCanvas = (canvas: HTMLCanvasElement, seconds: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    if (!canRecordClips()) {
+      reject(new Error('This browser cannot record video clips'));
+      return;
+    }
+    const mimeType = CLIP_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))!;
+    const stream = canvas.captureStream(CLIP_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: CLIP_BITRATE });
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = () => {
+      stream.getTracks().forEach(track => track.stop());
+      reject(new Error('Recording failed'));
+    };
+
+    recorder.start(1000);
+    setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, seconds * 1000);
+  });
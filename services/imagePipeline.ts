@@ -0,0 +1,79 @@
+// --- Image Pipeline ---
+// Photos are decoded and resized with createImageBitmap and re-encoded with OffscreenCanvas,
+// which both do the heavy lifting off the main thread. Uploads are stored downsized, so a
+// phone album of 12MP photos doesn't fill IndexedDB, and textures are decoded no larger than
+// the scene's budget allows (see scene/photoTextures).
+
+export interface ImagePipelineConfig {
+  /** Longest side of a stored photo in pixels. */
+  maxEdge: number;
+  /** Encoding of stored photos. */
+  type: string;
+  quality: number;
+}
+
+export const DEFAULT_IMAGE_PIPELINE_CONFIG: ImagePipelineConfig = {
+  maxEdge: 2048,
+  type: 'image/jpeg',
+  quality: 0.85,
+};
+
+/** Scales `width` x `height` down (never up) so the longest side is at most `maxEdge`. */
+export const fitWithin = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height, 1));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Decodes `source` into a bitmap whose longest side is at most `maxEdge`. `flipY` flips it
+ * upside down, as WebGL expects for textures made from bitmaps.
+ */
+export const decodeImage = async (source: Blob, maxEdge: number, flipY = false): Promise<ImageBitmap> => {
+  const full = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  const size = fitWithin(full.width, full.height, maxEdge);
+  if (size.width === full.width && size.height === full.height && !flipY) return full;
+  try {
+    return await createImageBitmap(full, {
+      resizeWidth: size.width,
+      resizeHeight: size.height,
+      resizeQuality: 'high',
+      imageOrientation: flipY ? 'flipY' : 'from-image',
+    });
+  } finally {
+    full.close();
+  }
+};
+
+const encodeBitmap = (bitmap: ImageBitmap, type: string, quality: number): Promise<Blob> => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not prepare the image');
+    ctx.drawImage(bitmap, 0, 0);
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  // Older browsers: encode on a regular canvas
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not prepare the image'))), type, quality);
+  });
+};
+
+/** Downsizes and re-encodes a photo for storage, unless the original is already smaller. */
+export const compressImage = async (
+  file: Blob,
+  config: Partial<ImagePipelineConfig> = {}
+): Promise<Blob> => {
+  const { maxEdge, type, quality } = { ...DEFAULT_IMAGE_PIPELINE_CONFIG, ...config };
+  const bitmap = await decodeImage(file, maxEdge);
+  try {
+    const encoded = await encodeBitmap(bitmap, type, quality);
+    return encoded.size < file.size ? encoded : file;
+  } finally {
+    bitmap.close();
+  }
+};
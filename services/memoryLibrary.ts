@@ -0,0 +1,245 @@
+import { MemoryLook, UploadedImage } from '../types';
+import { compressImage } from './imagePipeline';
+import { FRAME_STYLES } from '../scene/photoFrames';
+
+// --- Local Memory Library ---
+// Uploaded photos are downsized (see imagePipeline) and kept in IndexedDB as data URLs so they
+// survive reloads. Short video clips are stored the same way, as they are.
+// The whole library can be exported to (and restored from) a single JSON archive.
+// Each memory may carry its own frame style, crop focus and caption.
+// The memory shown in the placeholder frame is remembered in localStorage.
+
+const DB_NAME = 'christmas-tree-memories';
+const DB_VERSION = 1;
+const STORE = 'memories';
+const ARCHIVE_FORMAT = 'christmas-tree-memories';
+const ARCHIVE_VERSION = 1;
+const DEFAULT_MEMORY_KEY = 'christmas-tree-default-memory';
+const MAX_VIDEO_MB = 40;
+export const MAX_CAPTION_LENGTH = 40;
+
+interface StoredMemory extends UploadedImage {
+  createdAt: number;
+  /** Position in the library; records saved before reordering existed use createdAt. */
+  order?: number;
+}
+
+interface MemoryArchive {
+  format: string;
+  version: number;
+  memories: StoredMemory[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = body(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const readAsDataURL = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const isVideoFile = (file: Blob) => file.type.startsWith('video/');
+
+/** Video clips are stored untouched (but capped in size); photos are downsized first. */
+const prepareMemory = async (file: Blob): Promise<string> => {
+  if (!isVideoFile(file)) return readAsDataURL(await compressImage(file));
+  if (file.size > MAX_VIDEO_MB * 1024 * 1024) {
+    throw new Error(`Video clips must be smaller than ${MAX_VIDEO_MB} MB`);
+  }
+  return readAsDataURL(file);
+};
+
+/** Whether a memory is a video clip rather than a photo. */
+export const isVideoMemory = ({ url }: UploadedImage) => url.startsWith('data:video/');
+
+const clamp01 = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0.5);
+
+/** Keeps only well-formed look fields, so old or hand-edited records can't break the frames. */
+export const sanitizeLook = ({ frameStyle, crop, caption }: MemoryLook): MemoryLook => ({
+  ...(FRAME_STYLES.some(s => s.id === frameStyle) && { frameStyle }),
+  ...(crop && typeof crop === 'object' && { crop: { x: clamp01(crop.x), y: clamp01(crop.y) } }),
+  ...(typeof caption === 'string' && caption && { caption: caption.slice(0, MAX_CAPTION_LENGTH) }),
+});
+
+const toUploadedImage = (record: StoredMemory): UploadedImage => ({
+  id: record.id,
+  url: record.url,
+  ...sanitizeLook(record),
+});
+
+const sortKey = (m: StoredMemory) => m.order ?? m.createdAt;
+
+const byOrder = (a: StoredMemory, b: StoredMemory) => sortKey(a) - sortKey(b);
+
+const loadRecords = async () =>
+  ((await runTransaction<StoredMemory[]>('readonly', store => store.getAll())) ?? []).sort(byOrder);
+
+/** Returns every stored memory in library order (oldest first unless reordered). */
+export const loadMemories = async (): Promise<UploadedImage[]> => (await loadRecords()).map(toUploadedImage);
+
+/**
+ * Stores the given photos and video clips, returning the new library entries. Nothing is
+ * stored if any file can't be.
+ */
+export const addMemories = async (files: FileList | File[]): Promise<UploadedImage[]> => {
+  const now = Date.now();
+  const records: StoredMemory[] = [];
+  for (const [i, file] of Array.from(files).entries()) {
+    const url = await prepareMemory(file);
+    records.push({ id: createId(), url, createdAt: now + i, order: now + i });
+  }
+
+  await runTransaction('readwrite', store => {
+    records.forEach(record => store.put(record));
+  });
+  return records.map(toUploadedImage);
+};
+
+export const removeMemory = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+/** Stores `ids` as the new library order; memories not listed keep their place after them. */
+export const reorderMemories = async (ids: string[]): Promise<void> => {
+  const records = new Map((await loadRecords()).map(r => [r.id, r]));
+  await runTransaction('readwrite', store => {
+    ids.forEach((id, i) => {
+      const record = records.get(id);
+      if (record) store.put({ ...record, order: i });
+    });
+  });
+};
+
+/** Sets a memory's frame style, crop focus and caption; fields left undefined are cleared. */
+export const updateMemory = async (id: string, look: MemoryLook): Promise<UploadedImage> => {
+  const old = await runTransaction<StoredMemory>('readonly', store => store.get(id));
+  if (!old) throw new Error('That memory is no longer in the library');
+  const { url, createdAt, order } = old;
+  const record: StoredMemory = { id, url, createdAt, order, ...sanitizeLook(look) };
+  await runTransaction('readwrite', store => store.put(record));
+  return toUploadedImage(record);
+};
+
+/**
+ * Swaps the image of a memory for `file`, keeping its place in the library and its frame style
+ * and caption; the crop focus belongs to the old image. The entry gets a new id so anything
+ * showing the old image reloads; returns the replacement.
+ */
+export const replaceMemory = async (id: string, file: Blob): Promise<UploadedImage> => {
+  const old = await runTransaction<StoredMemory>('readonly', store => store.get(id));
+  if (!old) throw new Error('That memory is no longer in the library');
+  const now = Date.now();
+  const url = await prepareMemory(file);
+  const { frameStyle, caption } = sanitizeLook(old);
+  const record: StoredMemory = { id: createId(), url, createdAt: now, order: sortKey(old), frameStyle, caption };
+  await runTransaction('readwrite', store => {
+    store.delete(id);
+    store.put(record);
+  });
+  return toUploadedImage(record);
+};
+
+export const clearMemories = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+};
+
+export const loadDefaultMemoryId = (): string | null => localStorage.getItem(DEFAULT_MEMORY_KEY);
+
+/** Remembers which memory replaces the greeting card in the placeholder frame (null: none). */
+export const saveDefaultMemoryId = (id: string | null) => {
+  if (id) localStorage.setItem(DEFAULT_MEMORY_KEY, id);
+  else localStorage.removeItem(DEFAULT_MEMORY_KEY);
+};
+
+/** Bundles the whole library into a single downloadable archive. */
+export const exportMemories = async (): Promise<Blob> => {
+  const archive: MemoryArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    memories: await loadRecords(),
+  };
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+/**
+ * Restores memories from an archive produced by exportMemories.
+ * Entries whose id already exists in the library are skipped; returns the newly added ones.
+ */
+export const importMemories = async (file: Blob): Promise<UploadedImage[]> => {
+  let archive: MemoryArchive;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The selected file is not a memory archive');
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.memories)) {
+    throw new Error('The selected file is not a memory archive');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error(`Unsupported memory archive version ${archive.version}`);
+  }
+
+  const existing = new Set(
+    ((await runTransaction<IDBValidKey[]>('readonly', store => store.getAllKeys())) ?? []).map(String)
+  );
+  const now = Date.now();
+  const incoming = archive.memories
+    .filter(m => typeof m?.id === 'string' && typeof m.url === 'string' && m.url.startsWith('data:'))
+    .filter(m => !existing.has(m.id))
+    .map((m, i): StoredMemory => {
+      const createdAt = typeof m.createdAt === 'number' ? m.createdAt : now + i;
+      // Imported memories go after the current library, in archive order
+      return { id: m.id, url: m.url, createdAt, order: now + i, ...sanitizeLook(m) };
+    });
+
+  await runTransaction('readwrite', store => {
+    incoming.forEach(record => store.put(record));
+  });
+  return incoming.map(toUploadedImage);
+};
@@ -0,0 +1,188 @@
+// --- Background Music ---
+// Plays a playlist of local audio files and analyses what is playing. The analyser sits
+// before the volume control, so the visuals react the same at any volume (muted included).
+// The AudioContext is created on the first load, which always follows a user gesture.
+
+export interface AudioLevels {
+  /** Low-frequency energy, 0..1. */
+  bass: number;
+  /** High-frequency energy, 0..1. */
+  treble: number;
+  /** True on the frame a beat was detected. */
+  beat: boolean;
+}
+
+export interface PlaybackState {
+  /** Track names in playlist order. */
+  tracks: string[];
+  /** Index of the current track, -1 without a playlist. */
+  index: number;
+  playing: boolean;
+}
+
+export interface MusicConfig {
+  fftSize: number;
+  /** Analyser smoothing between frames, 0..1. */
+  smoothing: number;
+  /** Frequencies up to this count as bass. */
+  bassMaxHz: number;
+  /** Frequencies between these count as treble. */
+  trebleMinHz: number;
+  trebleMaxHz: number;
+  /** A beat is bass this many times above its running average... */
+  beatRatio: number;
+  /** ...and above this absolute level... */
+  beatFloor: number;
+  /** ...at least this long after the previous beat. */
+  beatCooldownMs: number;
+  /** Weight of each new frame in the running bass average. */
+  averageWeight: number;
+}
+
+export const DEFAULT_MUSIC_CONFIG: MusicConfig = {
+  fftSize: 1024,
+  smoothing: 0.75,
+  bassMaxHz: 150,
+  trebleMinHz: 4000,
+  trebleMaxHz: 12000,
+  beatRatio: 1.35,
+  beatFloor: 0.35,
+  beatCooldownMs: 350,
+  averageWeight: 0.05,
+};
+
+export const EMPTY_PLAYBACK: PlaybackState = { tracks: [], index: -1, playing: false };
+
+/** "Silent Night (choir).mp3" -> "Silent Night (choir)" */
+const trackName = (file: File) => file.name.replace(/\.[^.]+$/, '') || 'Untitled';
+
+export class MusicPlayer {
+  readonly config: MusicConfig;
+
+  private audio = new Audio();
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private gain: GainNode | null = null;
+  private bins: Uint8Array<ArrayBuffer> | null = null;
+  private urls: string[] = [];
+  private names: string[] = [];
+  private index = -1;
+  private volume = 1;
+  private bassAverage = 0;
+  private lastBeat = -Infinity;
+
+  constructor(private onChange: (state: PlaybackState) => void, config: Partial<MusicConfig> = {}) {
+    this.config = { ...DEFAULT_MUSIC_CONFIG, ...config };
+    this.audio.addEventListener('ended', this.handleEnded);
+    this.audio.addEventListener('play', this.emit);
+    this.audio.addEventListener('pause', this.emit);
+  }
+
+  get state(): PlaybackState {
+    return { tracks: [...this.names], index: this.index, playing: !this.audio.paused };
+  }
+
+  /** Replaces the playlist with `files` (audio files only) and starts the first track. */
+  async load(files: Iterable<File>) {
+    const tracks = Array.from(files).filter(f => f.type.startsWith('audio/'));
+    if (tracks.length === 0) throw new Error('No audio files were selected');
+
+    this.audio.pause();
+    this.urls.forEach(url => URL.revokeObjectURL(url));
+    this.urls = tracks.map(f => URL.createObjectURL(f));
+    this.names = tracks.map(trackName);
+    await this.playTrack(0);
+  }
+
+  async play() {
+    if (this.index === -1) return;
+    this.connect();
+    await this.context?.resume();
+    await this.audio.play();
+  }
+
+  pause() {
+    this.audio.pause();
+  }
+
+  toggle() {
+    return this.audio.paused ? this.play() : Promise.resolve(this.pause());
+  }
+
+  /** Moves `step` tracks along the playlist, wrapping at either end. */
+  skip(step: number) {
+    if (this.urls.length === 0) return Promise.resolve();
+    return this.playTrack((this.index + step + this.urls.length) % this.urls.length);
+  }
+
+  setVolume(volume: number) {
+    this.volume = Math.min(1, Math.max(0, volume));
+    if (this.gain) this.gain.gain.value = this.volume;
+  }
+
+  /** Analyses the current audio frame; null while nothing is playing. Call once per frame. */
+  sample(now: number): AudioLevels | null {
+    if (!this.analyser || !this.bins || !this.context || this.audio.paused) return null;
+    this.analyser.getByteFrequencyData(this.bins);
+
+    const hzPerBin = this.context.sampleRate / this.analyser.fftSize;
+    const band = (fromHz: number, toHz: number) => {
+      const from = Math.max(0, Math.floor(fromHz / hzPerBin));
+      const to = Math.min(this.bins!.length, Math.max(from + 1, Math.ceil(toHz / hzPerBin)));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += this.bins![i];
+      return sum / ((to - from) * 255);
+    };
+    const { bassMaxHz, trebleMinHz, trebleMaxHz, beatRatio, beatFloor, beatCooldownMs, averageWeight } = this.config;
+    const bass = band(0, bassMaxHz);
+    const treble = band(trebleMinHz, trebleMaxHz);
+
+    const beat = bass > beatFloor && bass > this.bassAverage * beatRatio && now - this.lastBeat >= beatCooldownMs;
+    if (beat) this.lastBeat = now;
+    this.bassAverage += (bass - this.bassAverage) * averageWeight;
+    return { bass, treble, beat };
+  }
+
+  dispose() {
+    this.audio.pause();
+    this.audio.removeEventListener('ended', this.handleEnded);
+    this.audio.removeEventListener('play', this.emit);
+    this.audio.removeEventListener('pause', this.emit);
+    this.audio.removeAttribute('src');
+    this.urls.forEach(url => URL.revokeObjectURL(url));
+    this.urls = [];
+    this.context?.close();
+    this.context = null;
+  }
+
+  private async playTrack(index: number) {
+    this.index = index;
+    this.audio.src = this.urls[index];
+    this.emit();
+    await this.play();
+  }
+
+  // A media element can only be connected to one source node, so the graph is built once
+  private connect() {
+    if (this.context) return;
+    this.context = new AudioContext();
+    const source = this.context.createMediaElementSource(this.audio);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = this.config.fftSize;
+    this.analyser.smoothingTimeConstant = this.config.smoothing;
+    this.bins = new Uint8Array(this.analyser.frequencyBinCount);
+    this.gain = this.context.createGain();
+    this.gain.gain.value = this.volume;
+    source.connect(this.analyser);
+    this.analyser.connect(this.gain);
+    this.gain.connect(this.context.destination);
+  }
+
+  private handleEnded = () => {
+    this.skip(1).catch(err => console.error('Error playing the next track:', err));
+  };
+
+  private emit = () => {
+    this.onChange(this.state);
+  };
+}
@@ -0,0 +1,184 @@
+import { BloomSettings, MusicSettings, OrnamentMix, ParticleConfig, QualityPreference, SceneSettings, SnowSettings } from '../types';
+import { LIGHT_PATTERNS } from '../scene/lightStrings';
+import { PHOTO_PLACEMENTS } from '../scene/photoOrnaments';
+import { FRAME_STYLES } from '../scene/photoFrames';
+import { QUALITY_TIERS } from '../scene/qualityGovernor';
+
+// --- Scene Settings ---
+// Particle counts, tree size, bloom, the ornament mix, the quality tier, capture options, the
+// greeting, music levels, snowfall, light strings, photo placement and the slideshow, edited
+// from the settings drawer and the main controls and kept in localStorage.
+// Stored values are clamped to the ranges below when loaded.
+
+const SETTINGS_KEY = 'christmas-tree-settings';
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  particles: {
+    count: 1200,
+    dustCount: 2000,
+    treeHeight: 24,
+    treeRadius: 8,
+  },
+  bloom: {},
+  ornamentMix: {
+    box: 0.4,
+    goldBox: 0.3,
+    goldSphere: 0.22,
+    red: 0.05,
+    cane: 0.03,
+  },
+  quality: 'auto',
+  capture: {
+    scale: 2,
+    includeTitle: true,
+    clipSeconds: 10,
+  },
+  greeting: '',
+  music: {
+    volume: 0.7,
+    reactivity: 1,
+    beatPulse: true,
+  },
+  snow: {
+    enabled: true,
+    density: 1500,
+    flakeSize: 0.25,
+    fallSpeed: 1,
+    wind: 1,
+  },
+  garland: {
+    enabled: true,
+    pattern: 'twinkle',
+    speed: 1,
+  },
+  photoPlacement: 'hung',
+  frameStyle: 'gold',
+  slideshow: {
+    dwellSeconds: 6,
+    kenBurns: true,
+  },
+};
+
+export const MAX_GREETING_LENGTH = 40;
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const PARTICLE_RANGES: Record<keyof ParticleConfig, SettingRange> = {
+  count: { min: 100, max: 20000, step: 100 },
+  dustCount: { min: 0, max: 20000, step: 100 },
+  treeHeight: { min: 10, max: 40, step: 1 },
+  treeRadius: { min: 3, max: 16, step: 0.5 },
+};
+
+export const BLOOM_RANGES: Record<keyof BloomSettings, SettingRange> = {
+  threshold: { min: 0, max: 1, step: 0.05 },
+  strength: { min: 0, max: 3, step: 0.05 },
+  radius: { min: 0, max: 1, step: 0.05 },
+};
+
+export const MIX_RANGE: SettingRange = { min: 0, max: 1, step: 0.01 };
+
+export const MUSIC_RANGES: Record<Exclude<keyof MusicSettings, 'beatPulse'>, SettingRange> = {
+  volume: { min: 0, max: 1, step: 0.05 },
+  reactivity: { min: 0, max: 2, step: 0.1 },
+};
+
+export const SNOW_RANGES: Record<Exclude<keyof SnowSettings, 'enabled'>, SettingRange> = {
+  density: { min: 100, max: 6000, step: 100 },
+  flakeSize: { min: 0.05, max: 0.6, step: 0.05 },
+  fallSpeed: { min: 0.2, max: 3, step: 0.1 },
+  wind: { min: 0, max: 3, step: 0.1 },
+};
+
+export const GARLAND_SPEED_RANGE: SettingRange = { min: 0.2, max: 3, step: 0.1 };
+
+export const SLIDESHOW_DWELL_RANGE: SettingRange = { min: 3, max: 30, step: 1 };
+
+export const CAPTURE_SCALES = [1, 2, 3, 4];
+export const CLIP_LENGTHS = [5, 10, 15, 30];
+
+const clampTo = (value: unknown, { min, max }: SettingRange): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : undefined;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isQualityPreference = (v: unknown): v is QualityPreference =>
+  v === 'auto' || QUALITY_TIERS.some(t => t.id === v);
+
+/** Fills in defaults and clamps every value; anything unrecognised is dropped. */
+export const sanitizeSettings = (input: unknown): SceneSettings => {
+  const defaults = DEFAULT_SCENE_SETTINGS;
+  if (!isRecord(input)) return defaults;
+  const particles = isRecord(input.particles) ? input.particles : {};
+  const bloom = isRecord(input.bloom) ? input.bloom : {};
+  const mix = isRecord(input.ornamentMix) ? input.ornamentMix : {};
+  const capture = isRecord(input.capture) ? input.capture : {};
+  const music = isRecord(input.music) ? input.music : {};
+  const snow = isRecord(input.snow) ? input.snow : {};
+  const garland = isRecord(input.garland) ? input.garland : {};
+  const slideshow = isRecord(input.slideshow) ? input.slideshow : {};
+
+  const result: SceneSettings = {
+    particles: { ...defaults.particles },
+    bloom: {},
+    ornamentMix: { ...defaults.ornamentMix },
+    quality: isQualityPreference(input.quality) ? input.quality : defaults.quality,
+    capture: {
+      scale: CAPTURE_SCALES.find(s => s === capture.scale) ?? defaults.capture.scale,
+      includeTitle: typeof capture.includeTitle === 'boolean' ? capture.includeTitle : defaults.capture.includeTitle,
+      clipSeconds: CLIP_LENGTHS.find(s => s === capture.clipSeconds) ?? defaults.capture.clipSeconds,
+    },
+    greeting: typeof input.greeting === 'string' ? input.greeting.slice(0, MAX_GREETING_LENGTH) : defaults.greeting,
+    music: {
+      volume: clampTo(music.volume, MUSIC_RANGES.volume) ?? defaults.music.volume,
+      reactivity: clampTo(music.reactivity, MUSIC_RANGES.reactivity) ?? defaults.music.reactivity,
+      beatPulse: typeof music.beatPulse === 'boolean' ? music.beatPulse : defaults.music.beatPulse,
+    },
+    snow: { ...defaults.snow, enabled: typeof snow.enabled === 'boolean' ? snow.enabled : defaults.snow.enabled },
+    garland: {
+      enabled: typeof garland.enabled === 'boolean' ? garland.enabled : defaults.garland.enabled,
+      pattern: LIGHT_PATTERNS.find(p => p.id === garland.pattern)?.id ?? defaults.garland.pattern,
+      speed: clampTo(garland.speed, GARLAND_SPEED_RANGE) ?? defaults.garland.speed,
+    },
+    photoPlacement: PHOTO_PLACEMENTS.find(p => p.id === input.photoPlacement)?.id ?? defaults.photoPlacement,
+    frameStyle: FRAME_STYLES.find(s => s.id === input.frameStyle)?.id ?? defaults.frameStyle,
+    slideshow: {
+      dwellSeconds: clampTo(slideshow.dwellSeconds, SLIDESHOW_DWELL_RANGE) ?? defaults.slideshow.dwellSeconds,
+      kenBurns: typeof slideshow.kenBurns === 'boolean' ? slideshow.kenBurns : defaults.slideshow.kenBurns,
+    },
+  };
+  (Object.keys(PARTICLE_RANGES) as (keyof ParticleConfig)[]).forEach(key => {
+    result.particles[key] = clampTo(particles[key], PARTICLE_RANGES[key]) ?? defaults.particles[key];
+  });
+  (Object.keys(BLOOM_RANGES) as (keyof BloomSettings)[]).forEach(key => {
+    const value = clampTo(bloom[key], BLOOM_RANGES[key]);
+    if (value !== undefined) result.bloom[key] = value;
+  });
+  (Object.keys(defaults.ornamentMix) as (keyof OrnamentMix)[]).forEach(key => {
+    result.ornamentMix[key] = clampTo(mix[key], MIX_RANGE) ?? defaults.ornamentMix[key];
+  });
+  (Object.keys(SNOW_RANGES) as (keyof typeof SNOW_RANGES)[]).forEach(key => {
+    result.snow[key] = clampTo(snow[key], SNOW_RANGES[key]) ?? defaults.snow[key];
+  });
+  return result;
+};
+
+export const loadSettings = (): SceneSettings => {
+  try {
+    return sanitizeSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_SCENE_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: SceneSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const clearSettings = () => {
+  localStorage.removeItem(SETTINGS_KEY);
+};
@@ -0,0 +1,121 @@
+import { AppMode, OrnamentMix, ParticleConfig, SceneView, Theme } from '../types';
+import { hasFormation } from '../scene/formations';
+import { BUILT_IN_THEMES, CLASSIC_GOLD, parseTheme } from '../scene/themes';
+import { MAX_GREETING_LENGTH, sanitizeSettings } from './settings';
+
+// --- Share Links ---
+// The shareable part of the scene travels in the URL hash as base64url-encoded JSON with
+// short keys: `#s=<payload>`. Every field is validated on the way in and anything missing
+// or malformed falls back to its default, so old or hand-edited links still open.
+//
+// Payload v1: { v: 1, m: mode, f: formation, t: built-in theme id | T: custom theme,
+//               p: [count, dustCount, treeHeight, treeRadius], x: ornament mix weights,
+//               g: greeting, c: [yaw, pitch, zoom] }
+// Later versions must keep decoding v1 links.
+
+export const SHARE_VERSION = 1;
+const HASH_PREFIX = 's=';
+
+export interface ShareState {
+  mode: AppMode;
+  formation: string;
+  theme: Theme;
+  particles: ParticleConfig;
+  ornamentMix: OrnamentMix;
+  greeting: string;
+  view: SceneView;
+}
+
+const MODES: AppMode[] = ['TREE', 'SCATTER', 'FOCUS', 'GREETING'];
+const PARTICLE_KEYS: (keyof ParticleConfig)[] = ['count', 'dustCount', 'treeHeight', 'treeRadius'];
+const MIX_KEYS: (keyof OrnamentMix)[] = ['box', 'goldBox', 'goldSphere', 'red', 'cane'];
+
+export const DEFAULT_VIEW: SceneView = { yaw: 0, pitch: 0, zoom: 1 };
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const numberAt = (list: unknown, i: number): number | undefined => {
+  const value = Array.isArray(list) ? list[i] : undefined;
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+const clamp = (value: number | undefined, min: number, max: number, fallback: number) =>
+  value === undefined ? fallback : Math.min(max, Math.max(min, value));
+
+// UTF-8 safe base64url, so greetings in any script survive
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+/** Returns the hash (without '#') describing `state`. */
+export const encodeShareState = (state: ShareState): string => {
+  const builtIn = BUILT_IN_THEMES.some(t => t.id === state.theme.id);
+  const payload = {
+    v: SHARE_VERSION,
+    m: state.mode,
+    f: state.formation,
+    ...(builtIn ? { t: state.theme.id } : { T: state.theme }),
+    p: PARTICLE_KEYS.map(k => state.particles[k]),
+    x: MIX_KEYS.map(k => round(state.ornamentMix[k])),
+    ...(state.greeting.trim() ? { g: state.greeting.trim() } : {}),
+    c: [round(state.view.yaw), round(state.view.pitch), round(state.view.zoom)],
+  };
+  return HASH_PREFIX + toBase64Url(JSON.stringify(payload));
+};
+
+/** Reads a share link hash; returns null if the hash isn't one. */
+export const decodeShareState = (hash: string): ShareState | null => {
+  const encoded = hash.replace(/^#/, '');
+  if (!encoded.startsWith(HASH_PREFIX)) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded.slice(HASH_PREFIX.length)));
+  } catch {
+    return null;
+  }
+  if (!isRecord(payload) || typeof payload.v !== 'number' || payload.v < 1) return null;
+
+  let theme = BUILT_IN_THEMES.find(t => t.id === payload.t) ?? CLASSIC_GOLD;
+  if (payload.T !== undefined) {
+    try {
+      theme = parseTheme(payload.T);
+    } catch {
+      // Keep the default theme
+    }
+  }
+
+  // Particle values go through the same clamping as stored settings
+  const { particles, ornamentMix } = sanitizeSettings({
+    particles: Object.fromEntries(PARTICLE_KEYS.map((k, i) => [k, numberAt(payload.p, i)])),
+    ornamentMix: Object.fromEntries(MIX_KEYS.map((k, i) => [k, numberAt(payload.x, i)])),
+  });
+
+  const yaw = numberAt(payload.c, 0) ?? DEFAULT_VIEW.yaw;
+  return {
+    mode: MODES.find(m => m === payload.m) ?? 'TREE',
+    formation: typeof payload.f === 'string' && hasFormation(payload.f) ? payload.f : 'tree',
+    theme,
+    particles,
+    ornamentMix,
+    greeting: typeof payload.g === 'string' ? payload.g.trim().slice(0, MAX_GREETING_LENGTH) : '',
+    view: {
+      yaw: Math.atan2(Math.sin(yaw), Math.cos(yaw)),
+      pitch: clamp(numberAt(payload.c, 1), -0.6, 0.6, DEFAULT_VIEW.pitch),
+      zoom: clamp(numberAt(payload.c, 2), 0.55, 2.0, DEFAULT_VIEW.zoom),
+    },
+  };
+};
+
+export const shareUrl = (state: ShareState) =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}#${encodeShareState(state)}`;
@@ -1,4 +1,5 @@
-export type AppMode = 'TREE' | 'SCATTER' | 'FOCUS';
+/** GREETING spells the greeting text with every ornament and dust particle. */
+export type AppMode = 'TREE' | 'SCATTER' | 'FOCUS' | 'GREETING';
 
 export interface ParticleConfig {
   count: number;
@@ -14,7 +15,166 @@ export interface AppColors {
   accentRed: number;
 }
 
-export interface UploadedImage {
+export interface BloomSettings {
+  threshold: number;
+  strength: number;
+  radius: number;
+}
+
+/** Relative weights of the ornament types; normalised when the particles are built. */
+export interface OrnamentMix {
+  box: number;
+  goldBox: number;
+  goldSphere: number;
+  red: number;
+  cane: number;
+}
+
+export type QualityTierId = 'low' | 'medium' | 'high' | 'ultra';
+
+/** 'auto' lets the frame-time governor pick the tier. */
+export type QualityPreference = QualityTierId | 'auto';
+
+export interface PerformanceStats {
+  tier: QualityTierId;
+  fps: number;
+}
+
+export interface CaptureSettings {
+  /** PNG stills are rendered at this multiple of the window size. */
+  scale: number;
+  /** Draw the greeting, as the header shows it, onto stills. */
+  includeTitle: boolean;
+  clipSeconds: number;
+}
+
+export interface MusicSettings {
+  /** Playback volume, 0..1. */
+  volume: number;
+  /** How strongly the music drives the lights and twinkle; 0 leaves the scene alone. */
+  reactivity: number;
+  /** Beats briefly scatter the ornaments, which then settle back. */
+  beatPulse: boolean;
+}
+
+export interface SnowSettings {
+  enabled: boolean;
+  /** Flakes falling at once (thinned out on lower quality tiers). */
+  density: number;
+  /** Flake size in world units. */
+  flakeSize: number;
+  /** Multiple of the normal fall speed. */
+  fallSpeed: number;
+  /** Multiple of the normal wind; 0 is calm. Gusts also push scattered ornaments. */
+  wind: number;
+}
+
+export type LightPattern = 'twinkle' | 'chase' | 'fade' | 'rainbow' | 'theme';
+
+export interface GarlandSettings {
+  /** Garlands and light strings around the tree. */
+  enabled: boolean;
+  pattern: LightPattern;
+  /** Multiple of the pattern's normal speed. */
+  speed: number;
+}
+
+/** 'hung' spreads photos over the tree's surface on ribbons; 'mixed' slots them among the ornaments. */
+export type PhotoPlacement = 'hung' | 'mixed';
+
+export interface SlideshowSettings {
+  /** How long each photo stays in focus. */
+  dwellSeconds: number;
+  /** Slowly pan and zoom across the focused photo. */
+  kenBurns: boolean;
+}
+
+export interface SceneSettings {
+  particles: ParticleConfig;
+  /** Overrides of the active theme's bloom; fields left out follow the theme. */
+  bloom: Partial<BloomSettings>;
+  ornamentMix: OrnamentMix;
+  quality: QualityPreference;
+  capture: CaptureSettings;
+  /** Shown in the header, on the placeholder photo and in GREETING mode; empty means the default. */
+  greeting: string;
+  music: MusicSettings;
+  snow: SnowSettings;
+  garland: GarlandSettings;
+  /** How photos sit on the 'tree' formation; other formations always slot them in. */
+  photoPlacement: PhotoPlacement;
+  /** Frame of every photo that doesn't pick its own. */
+  frameStyle: FrameStyle;
+  slideshow: SlideshowSettings;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  colors: AppColors & {
+    goldEmissive: number;
+    redEmissive: number;
+    star: number;
+    starEmissive: number;
+    dust: number;
+  };
+  lights: {
+    ambient: number;
+    ambientIntensity: number;
+    inner: number;
+    innerIntensity: number;
+    spot: number;
+    fill: number;
+  };
+  fogDensity: number;
+  bloom: BloomSettings;
+  /** CSS colours for the HTML overlay. */
+  ui: {
+    accent: string;
+    highlight: string;
+    glow: string;
+  };
+}
+
+/** Camera angle around the tree: yaw and pitch in radians, zoom as a distance factor. */
+export interface SceneView {
+  yaw: number;
+  pitch: number;
+  zoom: number;
+}
+
+export type FrameStyle = 'gold' | 'silver' | 'wood' | 'polaroid' | 'glass';
+
+/** Point of a photo kept in view when it is cropped to a square, 0..1 from the top left. */
+export interface PhotoCrop {
+  x: number;
+  y: number;
+}
+
+/** How a memory is framed; fields left out follow the scene settings. */
+export interface MemoryLook {
+  frameStyle?: FrameStyle;
+  /** Crop to a square around this point; whole photos are shown otherwise. */
+  crop?: PhotoCrop;
+  /** Written on the strip of a polaroid frame. */
+  caption?: string;
+}
+
+/** A photo or short video clip in the memory library; `url` is a data URL. */
+export interface UploadedImage extends MemoryLook {
   id: string;
   url: string;
 }
+
+export type TrackingState =
+  | 'loading'
+  | 'requesting-camera'
+  | 'active'
+  | 'camera-denied'
+  | 'camera-unavailable'
+  | 'model-unavailable';
+
+export interface TrackingStatus {
+  state: TrackingState;
+  message?: string;
+}
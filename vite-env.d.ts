@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the MediaPipe tasks-vision WASM files. */
+  readonly VITE_MEDIAPIPE_WASM_URL?: string;
+  /** URL of the hand_landmarker.task model. */
+  readonly VITE_HAND_MODEL_URL?: string;
+}
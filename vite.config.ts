@@ -1,15 +1,33 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+// Offline mode: strip the CDN tags (Tailwind play CDN, Google Fonts, esm.sh import map)
+// from index.html and bundle the app, Tailwind and fonts from node_modules instead.
+const offlineHtml = (): Plugin => ({
+  name: 'offline-html',
+  transformIndexHtml: {
+    order: 'pre',
+    handler: (html) =>
+      html
+        .replace(/\s*<script src="https:\/\/cdn\.tailwindcss\.com"><\/script>/, '')
+        .replace(/\s*<link href="https:\/\/fonts\.googleapis\.com[^>]*>/, '')
+        .replace(/\s*<script type="importmap">[\s\S]*?<\/script>/, '')
+        .replace('</head>', '  <link rel="stylesheet" href="/styles/offline.css" />\n</head>')
+        .replace('</body>', '  <script type="module" src="/index.tsx"></script>\n  </body>'),
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const offline = mode === 'offline';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: offline ? [react(), tailwindcss(), offlineHtml()] : [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)